@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Loaded at runtime by /api/execute to compile TypeScript submissions
+  serverExternalPackages: ["typescript"],
 };
 
 export default nextConfig;
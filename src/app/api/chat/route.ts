@@ -1,27 +1,100 @@
 // src/app/api/chat/route.ts
 import { NextRequest, NextResponse } from "next/server";
-
-interface Message {
-  role: "system" | "user" | "assistant";
-  content: string;
-}
+import {
+  describeProviders,
+  detectProvider,
+  getFailoverChain,
+  providers,
+  resolveProvider,
+  streamChatWithFailover,
+} from "@/lib/llm";
+import type { LLMMessage, ProviderId } from "@/lib/llm";
+import { encodeEvent } from "@/lib/sse";
+import { formatClock, getSessionClock } from "@/lib/sessionClock";
+import type { SessionClock } from "@/lib/sessionClock";
+import { getLanguageName } from "@/lib/languages";
+import { formatCodeSubmission } from "@/lib/code";
+import { validateTestSuite } from "@/lib/execute";
+import { attachTestRuns, getSubmissionKey, runSubmission } from "@/lib/execute/submissions";
+import { extractTestSuite } from "@/lib/testCases";
+import { extractQuizzes, formatQuizAnswer, formatQuizBlock, getQuestion } from "@/lib/quiz";
+import type { QuizStreamChunk } from "@/lib/quiz";
+import { describeWhiteboard } from "@/lib/whiteboard";
+import { getSession, saveTestSuite } from "@/lib/sessionStore";
+import type { ChatEvent, ChatRequestMessage, TurnMetadata } from "@/types/chat";
+import type { ExecutionResult } from "@/types/execute";
 
 interface ChatRequest {
-  messages: Message[];
+  messages: ChatRequestMessage[];
   jobDescription?: string;
   interviewTypes?: string[];
   difficulty?: string;
   duration?: number;
+  // BCP 47 tag such as "es-ES"; English when omitted
+  language?: string;
+  provider?: ProviderId;
+  model?: string;
+  // Saved session whose start time the time limit is measured from. Every
+  // turn needs one, so the limit can't be dodged by leaving it out.
+  sessionId?: string;
 }
 
-type Provider = "openai" | "anthropic" | "huggingface" | "ollama" | null;
+// Frame code submissions and quiz answers so the interviewer can tell them
+// apart from prose, and put asked quiz questions back with their answer key
+function frameContent({ content, code, quiz, quizAnswer }: ChatRequestMessage): string {
+  if (code) return formatCodeSubmission(code, code.testResults);
+  if (quizAnswer) return formatQuizAnswer(quizAnswer);
+  if (quiz) {
+    const payload = getQuestion(quiz.id);
+    const block = payload
+      ? formatQuizBlock(payload)
+      : "```quiz\n" + JSON.stringify({ topic: quiz.topic, question: quiz.question, options: quiz.options }) + "\n```";
+    return `${content}\n\n${block}`.trim();
+  }
+  return content;
+}
+
+// Whiteboard snapshots follow the message they were sent with
+function toLLMMessage(message: ChatRequestMessage): LLMMessage {
+  const content = frameContent(message);
+  return {
+    role: message.role,
+    content: message.whiteboard ? `${content}\n\n${describeWhiteboard(message.whiteboard)}` : content,
+  };
+}
+
+type TurnInfo = Pick<TurnMetadata, "questionId" | "section" | "difficulty">;
+
+// Work out which question and section the next interviewer turn belongs to.
+// Sections follow the selected interview types in order, spread evenly over
+// roughly one question per five minutes of session time.
+function getTurnInfo(
+  messages: LLMMessage[],
+  interviewTypes?: string[],
+  difficulty?: string,
+  duration?: number
+): TurnInfo {
+  const turn = messages.filter((m) => m.role === "assistant").length;
+  const types = interviewTypes || [];
+  const expectedQuestions = Math.max(types.length, Math.round((duration || 30) / 5));
+  const sectionIndex = Math.min(types.length - 1, Math.floor((turn * types.length) / expectedQuestions));
+
+  return {
+    questionId: `q${turn + 1}`,
+    section: types[sectionIndex] || "general",
+    difficulty: difficulty || "intermediate",
+  };
+}
 
 // System prompt generator
 function getSystemPrompt(
   jobDescription?: string,
   interviewTypes?: string[],
   difficulty?: string,
-  duration?: number
+  duration?: number,
+  section?: string,
+  clock?: SessionClock,
+  language?: string
 ) {
   const difficultyDescriptions: Record<string, string> = {
     beginner: "entry-level, focusing on fundamentals and basic concepts",
@@ -69,7 +142,8 @@ Advanced-Level Guidelines:
 - Expect detailed explanations of time/space complexity
 - Discuss real-world constraints and production considerations
 - Challenge assumptions and explore alternative approaches
-- Ask about failure modes and error handling strategies`;
+- Ask about failure modes and error handling strategies
+- The candidate can sketch architectures on a whiteboard; diagrams arrive as "[Whiteboard diagram]" with components, connections and notes. Refer to the diagram when discussing their design`;
       break;
     default: // intermediate
       difficultyInstructions = `
@@ -93,6 +167,9 @@ Coding Interview Instructions:
 - Evaluate code for: correctness, efficiency, readability, and edge case handling
 - Ask about time and space complexity
 - If syntax errors are present, point them out and ask for corrections
+- Code from the candidate's editor arrives as "[Code submission: <language>]" followed by a code block; review that code specifically
+- When you present a coding problem, end that message with test cases the candidate's code will be run against, as a fenced block tagged "tests" holding JSON: {"functionName": "<function to implement>", "cases": [{"args": [<arguments>], "expected": <return value>}]}. Use 3-6 cases including edge cases, JSON values only, and do not mention the block in your spoken text
+- Submissions may include "[Test results: <passed>/<total> passed]" with the failing cases; discuss those failures rather than re-checking the code by hand
 - For ${difficulty === "beginner" ? "beginner level: use simple problems like array manipulation, string operations, or basic data structures" : difficulty === "advanced" ? "advanced level: include dynamic programming, graph algorithms, or system design coding" : "intermediate level: include medium complexity problems with multiple approaches"}
 `;
   }
@@ -120,8 +197,9 @@ Technical Interview Instructions:
   if (types.includes("multiple-choice")) {
     typeInstructions += `
 Multiple-Choice Instructions:
-- Present quiz-style questions with clear options (A, B, C, D)
-- After the candidate answers, explain why the answer is correct or incorrect
+- Ask one quiz question per message as a fenced block tagged "quiz" holding JSON: {"topic": "<short topic>", "question": "<question>", "options": ["<A>", "<B>", "<C>", "<D>"], "answer": "<letter of the correct option>", "explanation": "<1-2 sentences>"}
+- Introduce the question in one short sentence before the block; never list the options or reveal the answer in your text, the app shows the options and grades the answer
+- Answers arrive as "[Quiz answer: correct]" or "[Quiz answer: incorrect]" followed by the chosen option; the candidate has already seen the explanation, so acknowledge briefly and move on. "[Quiz answer: ungraded]" means the question expired before it was answered; just move on
 - Cover a range of topics within the interview focus
 `;
   }
@@ -161,6 +239,35 @@ Hybrid Interview Structure:
 This is a hybrid interview combining multiple formats. At the start, briefly explain the structure to the candidate:
 "This interview will cover: ${orderedTypes.join(", then ")}."
 Transition smoothly between sections with brief announcements like "Now let's move on to the ${orderedTypes[1] || "next section"}."
+${section && typeLabels[section] ? `The interview is currently in the ${typeLabels[section]} section.\n` : ""}`;
+  }
+
+  // Build time-keeping instructions from the session clock
+  let timeInstructions = "";
+  if (clock) {
+    timeInstructions =
+      clock.phase === "wrap-up"
+        ? `
+Time Management:
+- Only ${formatClock(clock.remainingSeconds)} (m:ss) of the session remain
+- Do not start a new question; briefly acknowledge the last answer
+- Invite the candidate to ask any final questions, then thank them and close the interview
+`
+        : `
+Time Management:
+- About ${Math.ceil(clock.remainingSeconds / 60)} minutes of the session remain; pace your questions accordingly
+`;
+  }
+
+  // Build language instructions for non-English sessions
+  let languageInstructions = "";
+  const languageName = getLanguageName(language);
+  if (languageName !== "English") {
+    languageInstructions = `
+Language:
+- Conduct the entire interview in ${languageName}, including greetings, questions and feedback
+- Keep code, technical terms and identifiers as they are usually written
+- If the candidate answers in another language, continue in ${languageName}
 `;
   }
 
@@ -177,180 +284,70 @@ Core Guidelines:
 - Be encouraging but realistic in your assessment
 ${difficultyInstructions}
 ${typeInstructions}
-${hybridInstructions}`;
+${hybridInstructions}${timeInstructions}${languageInstructions}`;
 }
 
-// Detect which provider has API key
-function detectProvider(): Provider {
-  if (process.env.OPENAI_API_KEY) return "openai";
-  if (process.env.ANTHROPIC_API_KEY) return "anthropic";
-  if (process.env.OLLAMA_API_KEY) return "ollama";  // check Ollama before Hugging Face
-  if (process.env.HUGGINGFACE_API_KEY) return "huggingface";
-  return null;
-}
-// Format messages for Hugging Face prompt
-function formatMessagesAsPrompt(messages: Message[], systemPrompt: string) {
-  let prompt = `<s>[INST] ${systemPrompt}\n\n`;
-  messages.forEach((msg, i) => {
-    if (msg.role === "user") {
-      prompt += `[INST] ${msg.content} [/INST]`;
-    } else if (msg.role === "assistant") {
-      prompt += ` ${msg.content}</s>`;
-      if (i < messages.length - 1) prompt += "<s>";
-    }
-  });
-  return prompt;
+// Keep the interviewer's latest test cases on the session once its reply is
+// complete, so submissions are run against tests the client can't change
+function saveTestSuiteFrom(source: ReadableStream<QuizStreamChunk>, sessionId: string) {
+  let text = "";
+  return source.pipeThrough(
+    new TransformStream<QuizStreamChunk, QuizStreamChunk>({
+      transform(chunk, controller) {
+        if (chunk.type === "token") text += chunk.text;
+        controller.enqueue(chunk);
+      },
+      async flush() {
+        const suite = extractTestSuite(text);
+        if (!suite || validateTestSuite(suite)) return;
+        await saveTestSuite(sessionId, suite).catch((err) =>
+          console.error("Failed to save test suite:", err)
+        );
+      },
+    })
+  );
 }
 
-// -------------------- OpenAI Streaming --------------------
-async function streamOpenAI(messages: Message[], systemPrompt: string): Promise<Response> {
-  const apiKey = process.env.OPENAI_API_KEY!;
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: process.env.OPENAI_MODEL || "gpt-4o-mini",
-      messages: [{ role: "system", content: systemPrompt }, ...messages],
-      stream: true,
-      temperature: 0.7,
-      max_tokens: 1024,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} - ${error}`);
-  }
-
+// -------------------- SSE event stream --------------------
+// Emits meta first, then the submission's test results if there are any, then
+// token/usage events, and always ends with done. Errors after the first token
+// are reported in-band as an error event.
+function toEventStream(
+  source: ReadableStream<QuizStreamChunk>,
+  meta: TurnMetadata,
+  testResult: ExecutionResult | null
+) {
   const encoder = new TextEncoder();
-  const decoder = new TextDecoder();
-  const transformStream = new TransformStream({
-    async transform(chunk, controller) {
-      const text = decoder.decode(chunk);
-      const lines = text.split("\n").filter((line) => line.trim() !== "");
-      for (const line of lines) {
-        if (line.startsWith("data: ")) {
-          const data = line.slice(6);
-          if (data === "[DONE]") return;
-          try {
-            const parsed = JSON.parse(data);
-            const content = parsed.choices?.[0]?.delta?.content;
-            if (content) controller.enqueue(encoder.encode(content));
-          } catch { }
-        }
+  const reader = source.getReader();
+  const encodeChatEvent = ({ type, ...data }: ChatEvent) => encoder.encode(encodeEvent(type, data));
+  let sentMeta = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!sentMeta) {
+        sentMeta = true;
+        controller.enqueue(encodeChatEvent({ type: "meta", meta }));
+        if (testResult) controller.enqueue(encodeChatEvent({ type: "tests", result: testResult }));
+        return;
       }
-    },
-  });
-
-  return new Response(response.body?.pipeThrough(transformStream), {
-    headers: {
-      "Content-Type": "text/plain; charset=utf-8",
-      "Transfer-Encoding": "chunked",
-      "Cache-Control": "no-cache",
-    },
-  });
-}
-
-// -------------------- Anthropic Streaming --------------------
-async function streamAnthropic(messages: Message[], systemPrompt: string): Promise<Response> {
-  const apiKey = process.env.ANTHROPIC_API_KEY!;
-  const anthropicMessages = messages.map((msg) => ({
-    role: msg.role === "assistant" ? "assistant" : "user",
-    content: msg.content,
-  }));
-
-  const response = await fetch("https://api.anthropic.com/v1/messages", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": apiKey,
-      "anthropic-version": "2023-06-01",
-    },
-    body: JSON.stringify({
-      model: process.env.ANTHROPIC_MODEL || "claude-3-haiku-20240307",
-      max_tokens: 1024,
-      system: systemPrompt,
-      messages: anthropicMessages,
-      stream: true,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Anthropic API error: ${response.status} - ${error}`);
-  }
 
-  const encoder = new TextEncoder();
-  const decoder = new TextDecoder();
-  const transformStream = new TransformStream({
-    async transform(chunk, controller) {
-      const text = decoder.decode(chunk);
-      const lines = text.split("\n").filter((line) => line.trim() !== "");
-      for (const line of lines) {
-        if (line.startsWith("data: ")) {
-          const data = line.slice(6);
-          try {
-            const parsed = JSON.parse(data);
-            if (parsed.type === "content_block_delta") {
-              const content = parsed.delta?.text;
-              if (content) controller.enqueue(encoder.encode(content));
-            }
-          } catch { }
+      try {
+        const { done, value } = await reader.read();
+        if (!done) {
+          controller.enqueue(encodeChatEvent(value));
+          return;
         }
+      } catch (error) {
+        console.error("Chat stream error:", error);
+        const message = error instanceof Error ? error.message : "Stream interrupted";
+        controller.enqueue(encodeChatEvent({ type: "error", message }));
       }
-    },
-  });
 
-  return new Response(response.body?.pipeThrough(transformStream), {
-    headers: {
-      "Content-Type": "text/plain; charset=utf-8",
-      "Transfer-Encoding": "chunked",
-      "Cache-Control": "no-cache",
+      controller.enqueue(encodeChatEvent({ type: "done" }));
+      controller.close();
     },
-  });
-}
-
-// -------------------- Hugging Face Fallback --------------------
-async function callHuggingFace(messages: Message[], systemPrompt: string): Promise<Response> {
-  const apiKey = process.env.HUGGINGFACE_API_KEY!;
-  const model = process.env.HUGGINGFACE_MODEL || "mistralai/Mixtral-8x7B-Instruct-v0.1";
-
-  const prompt = formatMessagesAsPrompt(messages, systemPrompt);
-
-  const response = await fetch(
-    `https://router.huggingface.co/hf-inference/models/${model}`,
-    {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        inputs: prompt,
-        parameters: {
-          max_new_tokens: 1024,
-          temperature: 0.7,
-          return_full_text: false,
-        },
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Hugging Face API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json();
-  const generatedText = Array.isArray(result) ? result[0].generated_text : result.generated_text;
-
-  return new Response(generatedText, {
-    headers: {
-      "Content-Type": "text/plain; charset=utf-8",
-      "Cache-Control": "no-cache",
+    cancel(reason) {
+      return reader.cancel(reason);
     },
   });
 }
@@ -359,113 +356,97 @@ async function callHuggingFace(messages: Message[], systemPrompt: string): Promi
 export async function POST(request: NextRequest) {
   try {
     const body: ChatRequest = await request.json();
-    const { messages, jobDescription, interviewTypes, difficulty, duration } = body;
+    const {
+      messages,
+      jobDescription,
+      interviewTypes,
+      difficulty,
+      duration,
+      language,
+      model,
+      sessionId,
+    } = body;
 
     if (!messages || !Array.isArray(messages)) {
       return NextResponse.json({ error: "messages array is required" }, { status: 400 });
     }
 
-    const provider = detectProvider();
-    if (!provider) {
-      return NextResponse.json(
-        {
-          error:
-            "No API keys configured. Set OPENAI_API_KEY, ANTHROPIC_API_KEY, or HUGGINGFACE_API_KEY",
-        },
-        { status: 500 }
-      );
+    const selection = await resolveProvider(body.provider, model);
+    if (selection.error !== undefined) {
+      return NextResponse.json({ error: selection.error }, { status: selection.status });
     }
 
-    const systemPrompt = getSystemPrompt(jobDescription, interviewTypes, difficulty, duration);
-
-    switch (provider) {
-      case "openai":
-        return await streamOpenAI(messages, systemPrompt);
-      case "anthropic":
-        return await streamAnthropic(messages, systemPrompt);
-      case "ollama":
-        return await streamOllama(messages, systemPrompt);
-      case "huggingface":
-        return await callHuggingFace(messages, systemPrompt);
-      default:
-        return NextResponse.json({ error: "Unknown provider" }, { status: 500 });
+    // Refuse new turns once the saved session's duration has run out, timed
+    // by the server from when the session was created
+    if (typeof sessionId !== "string" || !sessionId) {
+      return NextResponse.json({ error: "sessionId is required" }, { status: 400 });
     }
+    const session = await getSession(sessionId);
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    const clock = getSessionClock((Date.now() - session.startedAt) / 1000, session.duration);
+    if (clock.phase === "expired") {
+      return NextResponse.json({ error: "The interview time is up" }, { status: 409 });
+    }
+
+    // A turn that submits code runs it here against the interviewer's tests,
+    // and every submission is framed with the server's results
+    const submission = messages.at(-1)?.code;
+    const testResult = submission ? await runSubmission(session, submission, request.signal) : null;
+    const testRuns = { ...session.testRuns };
+    if (submission && testResult) testRuns[getSubmissionKey(submission)] = testResult;
+    const framed = attachTestRuns(messages, testRuns);
+
+    const turn = getTurnInfo(messages, interviewTypes, difficulty, duration);
+    const systemPrompt = getSystemPrompt(
+      jobDescription,
+      interviewTypes,
+      difficulty,
+      duration,
+      turn.section,
+      clock,
+      language
+    );
+    const chain = getFailoverChain(selection);
+    // Cancelled when the client aborts, which also stops the upstream LLM request
+    const { stream, entry } = await streamChatWithFailover(
+      chain,
+      framed.map(toLLMMessage),
+      systemPrompt,
+      { maxTokens: 1024, signal: request.signal }
+    );
+
+    const meta: TurnMetadata = {
+      ...turn,
+      provider: entry.provider.id,
+      model: entry.model || entry.provider.defaultModel(),
+    };
 
+    const events = saveTestSuiteFrom(extractQuizzes(stream), session.id);
+    return new Response(toEventStream(events, meta, testResult), {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache",
+      },
+    });
   } catch (error) {
+    if (request.signal.aborted) {
+      return new Response(null, { status: 499 });
+    }
     console.error("Chat API error:", error);
     const errorMessage = error instanceof Error ? error.message : "Unexpected error";
     return NextResponse.json({ error: errorMessage }, { status: 500 });
   }
 }
-// -------------------- Ollama Streaming --------------------
-async function streamOllama(messages: Message[], systemPrompt: string): Promise<Response> {
-  const model = process.env.OLLAMA_MODEL || "llama3.2:latest";
-
-  // Determine API URL: use local if no API key, otherwise cloud
-  const ollamaUrl = process.env.OLLAMA_API_URL || "http://localhost:11434/v1/completions";
-  const apiKey = process.env.OLLAMA_API_KEY; // optional
-
-  // Combine system prompt + messages into one text prompt
-  const prompt = [
-    `System: ${systemPrompt}`,
-    ...messages.map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
-  ].join("\n");
-
-  const headers: Record<string, string> = { "Content-Type": "application/json" };
-  if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
-
-  const response = await fetch(ollamaUrl, {
-    method: "POST",
-    headers,
-    body: JSON.stringify({
-      model,
-      prompt,
-      max_tokens: 1024,
-      temperature: 0.7,
-      stream: true
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Ollama API error: ${response.status} - ${error}`);
-  }
-
-  const encoder = new TextEncoder();
-  const decoder = new TextDecoder();
-  const transformStream = new TransformStream({
-    async transform(chunk, controller) {
-      const text = decoder.decode(chunk);
-      const lines = text.split("\n").filter((l) => l.trim() !== "");
-      for (const line of lines) {
-        try {
-          const parsed = JSON.parse(line);
-          const content = parsed.choices?.[0]?.text;
-          if (content) controller.enqueue(encoder.encode(content));
-        } catch { }
-      }
-    }
-  });
-
-  return new Response(response.body?.pipeThrough(transformStream), {
-    headers: {
-      "Content-Type": "text/plain; charset=utf-8",
-      "Transfer-Encoding": "chunked",
-      "Cache-Control": "no-cache",
-    },
-  });
-}
 
 // -------------------- GET / Health check --------------------
 export async function GET() {
   const provider = detectProvider();
   return NextResponse.json({
     status: "ok",
-    provider: provider || "none",
-    availableProviders: {
-      openai: !!process.env.OPENAI_API_KEY,
-      anthropic: !!process.env.ANTHROPIC_API_KEY,
-      huggingface: !!process.env.HUGGINGFACE_API_KEY,
-    },
+    provider: provider?.id || "none",
+    availableProviders: Object.fromEntries(providers.map((p) => [p.id, p.isConfigured()])),
+    providers: await describeProviders(),
   });
 }
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  executionLimits,
+  getRunnableLanguages,
+  getRuntime,
+  MAX_SOURCE_LENGTH,
+  runtimes,
+  validateTestSuite,
+} from "@/lib/execute";
+import type { ExecuteRequest } from "@/types/execute";
+
+// Check the shape of a request before any of it reaches a runtime
+function validate({ language, source, tests }: Partial<ExecuteRequest>): string | null {
+  if (!language || typeof source !== "string" || !source.trim()) {
+    return "language and source are required";
+  }
+  if (source.length > MAX_SOURCE_LENGTH) {
+    return `source must be at most ${MAX_SOURCE_LENGTH} characters`;
+  }
+  return validateTestSuite(tests);
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: ExecuteRequest = await request.json();
+
+    const invalid = validate(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const runtime = getRuntime(body.language);
+    if (!runtime) {
+      return NextResponse.json(
+        { error: `Running ${body.language} is not supported on this server` },
+        { status: 422 }
+      );
+    }
+
+    const result = await runtime.run(body.source, body.language, body.tests, {
+      ...executionLimits,
+      signal: request.signal,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (request.signal.aborted) {
+      return new Response(null, { status: 499 });
+    }
+    console.error("Execute API error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unexpected error";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+// Tells the client which editor languages can be run
+export async function GET() {
+  return NextResponse.json({
+    status: "ok",
+    languages: getRunnableLanguages(),
+    availableRuntimes: Object.fromEntries(runtimes.map((r) => [r.id, r.isAvailable()])),
+    limits: executionLimits,
+  });
+}
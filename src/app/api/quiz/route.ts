@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { answerQuestion } from "@/lib/quiz";
+import type { QuizAnswerRequest } from "@/types/quiz";
+
+// Grades a multiple-choice answer against the answer key kept on the server.
+// Only the first answer to a question is accepted.
+export async function POST(request: NextRequest) {
+  try {
+    const { id, choice }: QuizAnswerRequest = await request.json();
+
+    if (typeof id !== "string" || !Number.isInteger(choice) || choice < 0) {
+      return NextResponse.json({ error: "id and a choice index are required" }, { status: 400 });
+    }
+
+    const outcome = answerQuestion(id, choice);
+    if (outcome.status === "expired") {
+      return NextResponse.json({ error: "This question has expired" }, { status: 404 });
+    }
+    if (outcome.status === "invalid") {
+      return NextResponse.json({ error: "choice is not one of the options" }, { status: 400 });
+    }
+    if (outcome.status === "answered") {
+      return NextResponse.json({ error: "This question has already been answered" }, { status: 409 });
+    }
+
+    return NextResponse.json(outcome.grade);
+  } catch (error) {
+    console.error("Quiz API error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unexpected error";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
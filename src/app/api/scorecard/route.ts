@@ -1,54 +1,177 @@
 import { NextRequest, NextResponse } from "next/server";
-
-interface Message {
-  role: "system" | "user" | "assistant";
-  content: string;
-}
+import { completeWithFailover, getFailoverChain, resolveProvider } from "@/lib/llm";
+import type { ProviderId } from "@/lib/llm";
+import { getLanguageName } from "@/lib/languages";
+import { formatCodeSubmission } from "@/lib/code";
+import { attachTestRuns } from "@/lib/execute/submissions";
+import { getSession } from "@/lib/sessionStore";
+import { formatQuizAnswer, getOptionLetter, getQuizScores } from "@/lib/quiz";
+import type { ChatRequestMessage } from "@/types/chat";
+import type { QuizTopicScore } from "@/types/quiz";
+import type { DeliveryMetrics } from "@/types/delivery";
+import { describeWhiteboard } from "@/lib/whiteboard";
+import { getRubric } from "@/lib/rubrics";
+import type { RubricDimension } from "@/lib/rubrics";
 
 interface ScorecardRequest {
-  messages: Message[];
+  messages: ChatRequestMessage[];
   jobDescription?: string;
   interviewTypes?: string[];
   difficulty?: string;
+  language?: string;
+  provider?: ProviderId;
+  model?: string;
+  // Saved session whose server-side test runs the coding results come from
+  sessionId?: string;
+  timing?: SessionTiming;
+  // Measured from the candidate's microphone and spoken answers
+  delivery?: DeliveryMetrics;
+}
+
+// How long the session ran and how it ended
+export interface SessionTiming {
+  durationMinutes: number;
+  elapsedSeconds: number;
+  endedBy: "timeout" | "candidate";
+}
+
+// Test cases passed across the coding problems, counting each problem's last run
+export interface TestSummary {
+  passed: number;
+  total: number;
+  problems: number;
+}
+
+// Feedback tied to one transcript message, e.g. for seeking the recording
+export interface ScorecardMoment {
+  messageIndex: number;
+  kind: "strength" | "improvement";
+  comment: string;
+}
+
+// Feedback on one question and the candidate's answer to it
+export interface QuestionFeedback {
+  // Transcript index of the interviewer message that asked it
+  messageIndex: number;
+  question: string;
+  answerSummary: string;
+  score: number;
+  // Points a strong answer would cover
+  strongAnswer: string[];
+  modelAnswer: string;
+}
+
+// One scored rubric dimension, with the measured evidence the rubric attaches to it
+export interface ScoreDimension {
+  id: string;
+  label: string;
+  score: number;
+  feedback: string;
+  strengths: string[];
+  improvements: string[];
+  tests?: TestSummary;
+  delivery?: DeliveryMetrics;
 }
 
 export interface ScorecardResponse {
-  technicalAccuracy: {
-    score: number;
-    feedback: string;
-    strengths: string[];
-    improvements: string[];
-  };
-  communicationSkills: {
-    score: number;
-    feedback: string;
-    strengths: string[];
-    improvements: string[];
-  };
+  // In rubric order for the interview types (see lib/rubrics)
+  dimensions: ScoreDimension[];
   overallScore: number;
   keyAreasForImprovement: string[];
   summary: string;
+  questions?: QuestionFeedback[];
+  moments?: ScorecardMoment[];
+  quizResults?: QuizTopicScore[];
+  timeUsage?: {
+    allottedMinutes: number;
+    usedMinutes: number;
+    endedBy: SessionTiming["endedBy"];
+    feedback: string;
+  };
 }
 
-type Provider = "openai" | "anthropic" | "huggingface" | null;
+function getTestSummary(messages: ChatRequestMessage[]): TestSummary | undefined {
+  const latest = new Map<string, { passed: number; total: number }>();
+  for (const { code } of messages) {
+    if (code?.testResults) latest.set(code.testResults.functionName, code.testResults);
+  }
+  if (latest.size === 0) return undefined;
+
+  const runs = [...latest.values()];
+  return {
+    passed: runs.reduce((sum, r) => sum + r.passed, 0),
+    total: runs.reduce((sum, r) => sum + r.total, 0),
+    problems: runs.length,
+  };
+}
 
-function detectProvider(): Provider {
-  if (process.env.OPENAI_API_KEY) return "openai";
-  if (process.env.ANTHROPIC_API_KEY) return "anthropic";
-  if (process.env.HUGGINGFACE_API_KEY) return "huggingface";
-  return null;
+// Message text with code, quiz questions, graded answers and diagrams spelled out
+function formatTranscriptMessage(message: ChatRequestMessage): string {
+  const text = formatMessageText(message);
+  return message.whiteboard ? `${text}\n${describeWhiteboard(message.whiteboard)}` : text;
+}
+
+function formatMessageText({ content, code, quiz, quizAnswer }: ChatRequestMessage): string {
+  if (code) return formatCodeSubmission(code, code.testResults);
+  if (quizAnswer) return formatQuizAnswer(quizAnswer);
+  if (quiz) {
+    const options = quiz.options.map((o, i) => `${getOptionLetter(i)}) ${o}`).join("  ");
+    return `${content}\n[Quiz question on ${quiz.topic}] ${quiz.question}\n${options}`.trim();
+  }
+  return content;
+}
+
+// Dimension that scores a kind of measured evidence, falling back to the first
+// when the rubric has no slot for it
+function getEvidenceDimension(
+  rubric: RubricDimension[],
+  evidence: NonNullable<RubricDimension["evidence"]>
+): RubricDimension {
+  return rubric.find((d) => d.evidence === evidence) ?? rubric[0];
+}
+
+// Measured delivery as prompt lines, leaving out what couldn't be measured
+function getDeliverySection(delivery: DeliveryMetrics, dimension: RubricDimension): string {
+  const lines: string[] = [];
+  if (delivery.wordsPerMinute !== null) {
+    lines.push(`- Speaking rate: ${delivery.wordsPerMinute} words per minute (conversational is roughly 120-160)`);
+  }
+  if (delivery.talkRatio !== null) {
+    lines.push(`- Talk-to-listen ratio: the candidate spoke ${Math.round(delivery.talkRatio * 100)}% of the talking time`);
+  }
+  if (delivery.averagePauseSeconds !== null) {
+    lines.push(
+      `- Pauses within answers: average ${delivery.averagePauseSeconds}s, longest ${delivery.longestPauseSeconds}s, ${delivery.longPauses} of 3s or more`
+    );
+  }
+  if (delivery.fillersPer100Words !== null) {
+    const words = delivery.fillerWords.map((f) => `"${f.word}" x${f.count}`).join(", ");
+    lines.push(`- Filler words: ${delivery.fillersPer100Words} per 100 words${words ? ` (${words})` : ""}`);
+  }
+  if (delivery.volumeVariationDb !== null) {
+    lines.push(`- Volume variation while speaking: ${delivery.volumeVariationDb} dB standard deviation (under 4 is steady, over 8 is uneven)`);
+  }
+  if (lines.length === 0) return "";
+  return `Delivery Metrics (measured from the candidate's microphone):\n${lines.join("\n")}\nUse these measurements in the "${dimension.id}" score and refer to them in that feedback.\n`;
 }
 
 function getScorecardPrompt(
-  messages: Message[],
+  messages: ChatRequestMessage[],
   jobDescription?: string,
   interviewTypes?: string[],
-  difficulty?: string
+  difficulty?: string,
+  timing?: SessionTiming,
+  language?: string,
+  tests?: TestSummary,
+  quizScores?: QuizTopicScore[],
+  delivery?: DeliveryMetrics,
+  rubric: RubricDimension[] = getRubric(interviewTypes)
 ): string {
+  // Numbered so feedback can point back at specific messages
   const conversation = messages
-    .map((msg) => {
+    .map((msg, index) => {
       const role = msg.role === "assistant" ? "Interviewer" : "Candidate";
-      return `${role}: ${msg.content}`;
+      return `[#${index}] ${role}: ${formatTranscriptMessage(msg)}`;
     })
     .join("\n\n");
 
@@ -69,28 +192,70 @@ function getScorecardPrompt(
     contextSection = `Job Description:\n${jobDescription}\n\n`;
   }
 
+  let timingSection = "";
+  let timingField = "";
+  if (timing) {
+    const usedMinutes = Math.round(timing.elapsedSeconds / 60);
+    const ending =
+      timing.endedBy === "timeout"
+        ? "The session ended because the time ran out."
+        : "The candidate chose to finish the session.";
+    timingSection = `Session Timing: ${usedMinutes} of ${timing.durationMinutes} minutes used. ${ending}\n`;
+    timingField = `,
+  "timeManagement": "<1-2 sentences on how the candidate paced their answers and used the available time>"`;
+  }
+
+  const rubricSection = `Scoring Rubric (score every dimension):\n${rubric
+    .map((d) => `- "${d.id}" (${d.label}): ${d.description}`)
+    .join("\n")}\n`;
+
+  // Executed test cases are hard evidence, so they anchor their dimension's score
+  const testsSection = tests
+    ? `Automated Tests: the candidate's final submissions passed ${tests.passed} of ${tests.total} test cases across ${tests.problems} coding problem(s). Weigh this heavily in the "${getEvidenceDimension(rubric, "tests").id}" score and mention it in that feedback.\n`
+    : "";
+
+  // The app graded the quiz answers itself; the scores are exact
+  const quizSection = quizScores?.length
+    ? `Quiz Results (auto-graded): ${quizScores
+        .map((s) => `${s.topic} ${s.correct}/${s.total}`)
+        .join(", ")}. Use these exact results when judging the candidate's knowledge and name the weakest topics in keyAreasForImprovement.\n`
+    : "";
+
+  const deliverySection = delivery
+    ? getDeliverySection(delivery, getEvidenceDimension(rubric, "delivery"))
+    : "";
+
+  const dimensionFields = rubric
+    .map(
+      (d) => `    "${d.id}": {
+      "score": <1-10>,
+      "feedback": "<2-3 sentences about ${d.label.toLowerCase()}>",
+      "strengths": ["<strength 1>", "<strength 2>"],
+      "improvements": ["<improvement 1>", "<improvement 2>"]
+    }`
+    )
+    .join(",\n");
+
+  // Feedback follows the interview language; the JSON keys stay in English
+  const languageName = getLanguageName(language);
+  const languageNote =
+    languageName !== "English"
+      ? `The interview was held in ${languageName}. Write every feedback string in ${languageName}, but keep the JSON keys exactly as shown.\n\n`
+      : "";
+
   return `You are an expert interview coach and assessor. Analyze the following mock interview conversation and provide a detailed performance scorecard.
 
 ${contextSection}Interview Type: ${selectedTypes}
 Difficulty Level: ${difficultyLevel}
-
+${rubricSection}${timingSection}${testsSection}${quizSection}${deliverySection}
 Interview Conversation:
 ${conversation}
 
 Based on this interview, provide a JSON scorecard with the following structure. Be constructive, specific, and actionable in your feedback. Scores should be from 1-10.
 
 {
-  "technicalAccuracy": {
-    "score": <1-10>,
-    "feedback": "<2-3 sentences about technical performance>",
-    "strengths": ["<strength 1>", "<strength 2>"],
-    "improvements": ["<improvement 1>", "<improvement 2>"]
-  },
-  "communicationSkills": {
-    "score": <1-10>,
-    "feedback": "<2-3 sentences about communication>",
-    "strengths": ["<strength 1>", "<strength 2>"],
-    "improvements": ["<improvement 1>", "<improvement 2>"]
+  "dimensions": {
+${dimensionFields}
   },
   "overallScore": <1-10>,
   "keyAreasForImprovement": [
@@ -98,117 +263,104 @@ Based on this interview, provide a JSON scorecard with the following structure.
     "<specific actionable improvement 2>",
     "<specific actionable improvement 3>"
   ],
-  "summary": "<3-4 sentence overall assessment and encouragement>"
-}
-
-Respond ONLY with the JSON object, no additional text.`;
+  "summary": "<3-4 sentence overall assessment and encouragement>",
+  "questions": [
+    {
+      "messageIndex": <# of the interviewer message that asked the question>,
+      "question": "<the question, shortened if long>",
+      "answerSummary": "<1-2 sentences on what the candidate answered>",
+      "score": <1-10>,
+      "strongAnswer": ["<point a strong answer covers>", "<another point>"],
+      "modelAnswer": "<a concise example of a strong answer, 2-4 sentences>"
+    }
+  ],
+  "moments": [
+    {
+      "messageIndex": <# of the transcript message this refers to>,
+      "kind": "strength" | "improvement",
+      "comment": "<1 sentence on what stood out at that point>"
+    }
+  ]${timingField}
 }
 
-async function callOpenAI(prompt: string): Promise<ScorecardResponse> {
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: process.env.OPENAI_MODEL || "gpt-4o-mini",
-      messages: [{ role: "user", content: prompt }],
-      temperature: 0.7,
-      max_tokens: 2048,
-    }),
-  });
+Include one entry in "questions" for every question the candidate answered, in the order asked, and 2-5 moments, each pointing at the specific message where it happened.
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} - ${error}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content;
-
-  if (!content) {
-    throw new Error("No content in OpenAI response");
-  }
+${languageNote}Respond ONLY with the JSON object, no additional text.`;
+}
 
-  return parseScorecard(content);
+function getTimeUsage(timing: SessionTiming, feedback?: string): ScorecardResponse["timeUsage"] {
+  return {
+    allottedMinutes: timing.durationMinutes,
+    usedMinutes: Math.round(timing.elapsedSeconds / 60),
+    endedBy: timing.endedBy,
+    feedback: feedback || "No time management feedback available.",
+  };
 }
 
-async function callAnthropic(prompt: string): Promise<ScorecardResponse> {
-  const response = await fetch("https://api.anthropic.com/v1/messages", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": process.env.ANTHROPIC_API_KEY!,
-      "anthropic-version": "2023-06-01",
-    },
-    body: JSON.stringify({
-      model: process.env.ANTHROPIC_MODEL || "claude-3-haiku-20240307",
-      max_tokens: 2048,
-      messages: [{ role: "user", content: prompt }],
-    }),
+const clampScore = (value: unknown) => Math.min(10, Math.max(1, Math.round(Number(value)) || 5));
+
+const isText = (value: unknown): value is string => typeof value === "string" && value.trim() !== "";
+
+function parseMoments(value: unknown, messageCount: number): ScorecardMoment[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((m) => {
+    const index = Number(m?.messageIndex);
+    if (!Number.isInteger(index) || index < 0 || index >= messageCount) return [];
+    if (!isText(m.comment)) return [];
+    return [
+      {
+        messageIndex: index,
+        kind: m.kind === "strength" ? "strength" : "improvement",
+        comment: m.comment.trim(),
+      },
+    ];
   });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Anthropic API error: ${response.status} - ${error}`);
-  }
-
-  const data = await response.json();
-  const content = data.content?.[0]?.text;
-
-  if (!content) {
-    throw new Error("No content in Anthropic response");
-  }
-
-  return parseScorecard(content);
 }
 
-async function callHuggingFace(prompt: string): Promise<ScorecardResponse> {
-  const model =
-    process.env.HUGGINGFACE_MODEL || "mistralai/Mixtral-8x7B-Instruct-v0.1";
-
-  const response = await fetch(
-    `https://router.huggingface.co/hf-inference/models/${model}`,
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.HUGGINGFACE_API_KEY}`,
+function parseQuestions(value: unknown, messageCount: number): QuestionFeedback[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((q) => {
+    const index = Number(q?.messageIndex);
+    if (!Number.isInteger(index) || index < 0 || index >= messageCount) return [];
+    if (!isText(q.question)) return [];
+    return [
+      {
+        messageIndex: index,
+        question: q.question.trim(),
+        answerSummary: isText(q.answerSummary) ? q.answerSummary.trim() : "",
+        score: clampScore(q.score),
+        strongAnswer: Array.isArray(q.strongAnswer) ? q.strongAnswer.filter(isText) : [],
+        modelAnswer: isText(q.modelAnswer) ? q.modelAnswer.trim() : "",
       },
-      body: JSON.stringify({
-        inputs: `<s>[INST] ${prompt} [/INST]`,
-        parameters: {
-          max_new_tokens: 2048,
-          temperature: 0.7,
-          return_full_text: false,
-        },
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Hugging Face API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json();
-  let content = "";
-
-  if (Array.isArray(result)) {
-    content = result[0]?.generated_text || "";
-  } else if (result.generated_text) {
-    content = result.generated_text;
-  }
-
-  if (!content) {
-    throw new Error("No content in Hugging Face response");
-  }
-
-  return parseScorecard(content);
+    ];
+  });
 }
 
-function parseScorecard(content: string): ScorecardResponse {
+function parseScorecard(
+  content: string,
+  messageCount: number,
+  rubric: RubricDimension[],
+  timing?: SessionTiming,
+  tests?: TestSummary,
+  quizScores?: QuizTopicScore[],
+  delivery?: DeliveryMetrics
+): ScorecardResponse {
+  const quizResults = quizScores?.length ? quizScores : undefined;
+
+  // Measured evidence goes on the dimension the rubric assigns it to
+  const testsId = tests && getEvidenceDimension(rubric, "tests").id;
+  const deliveryId = delivery && getEvidenceDimension(rubric, "delivery").id;
+  const toDimension = (
+    dimension: RubricDimension,
+    assessment: Pick<ScoreDimension, "score" | "feedback" | "strengths" | "improvements">
+  ): ScoreDimension => ({
+    id: dimension.id,
+    label: dimension.label,
+    ...assessment,
+    tests: dimension.id === testsId ? tests : undefined,
+    delivery: dimension.id === deliveryId ? delivery : undefined,
+  });
+
   // Try to extract JSON from the response
   let jsonStr = content.trim();
 
@@ -229,43 +381,34 @@ function parseScorecard(content: string): ScorecardResponse {
 
     // Validate and provide defaults
     return {
-      technicalAccuracy: {
-        score: Math.min(10, Math.max(1, parsed.technicalAccuracy?.score || 5)),
-        feedback:
-          parsed.technicalAccuracy?.feedback || "No feedback available.",
-        strengths: parsed.technicalAccuracy?.strengths || [],
-        improvements: parsed.technicalAccuracy?.improvements || [],
-      },
-      communicationSkills: {
-        score: Math.min(
-          10,
-          Math.max(1, parsed.communicationSkills?.score || 5)
-        ),
-        feedback:
-          parsed.communicationSkills?.feedback || "No feedback available.",
-        strengths: parsed.communicationSkills?.strengths || [],
-        improvements: parsed.communicationSkills?.improvements || [],
-      },
+      dimensions: rubric.map((dimension) => {
+        const assessed = parsed.dimensions?.[dimension.id];
+        return toDimension(dimension, {
+          score: clampScore(assessed?.score),
+          feedback: assessed?.feedback || "No feedback available.",
+          strengths: assessed?.strengths || [],
+          improvements: assessed?.improvements || [],
+        });
+      }),
       overallScore: Math.min(10, Math.max(1, parsed.overallScore || 5)),
       keyAreasForImprovement: parsed.keyAreasForImprovement || [],
       summary: parsed.summary || "Interview assessment completed.",
+      questions: parseQuestions(parsed.questions, messageCount),
+      moments: parseMoments(parsed.moments, messageCount),
+      quizResults,
+      timeUsage: timing && getTimeUsage(timing, parsed.timeManagement),
     };
   } catch {
     // Return a default scorecard if parsing fails
     return {
-      technicalAccuracy: {
-        score: 5,
-        feedback:
-          "Unable to fully assess technical accuracy from the conversation.",
-        strengths: ["Participated in the interview"],
-        improvements: ["Provide more detailed technical responses"],
-      },
-      communicationSkills: {
-        score: 5,
-        feedback: "Communication skills could not be fully evaluated.",
-        strengths: ["Engaged with the interviewer"],
-        improvements: ["Elaborate more on your answers"],
-      },
+      dimensions: rubric.map((dimension) =>
+        toDimension(dimension, {
+          score: 5,
+          feedback: `Unable to fully assess ${dimension.label.toLowerCase()} from the conversation.`,
+          strengths: [],
+          improvements: [],
+        })
+      ),
       overallScore: 5,
       keyAreasForImprovement: [
         "Continue practicing mock interviews",
@@ -274,6 +417,8 @@ function parseScorecard(content: string): ScorecardResponse {
       ],
       summary:
         "Thank you for completing this mock interview. Continue practicing to improve your interview skills.",
+      quizResults,
+      timeUsage: timing && getTimeUsage(timing),
     };
   }
 }
@@ -281,45 +426,67 @@ function parseScorecard(content: string): ScorecardResponse {
 export async function POST(request: NextRequest) {
   try {
     const body: ScorecardRequest = await request.json();
-    const { messages, jobDescription, interviewTypes, difficulty } = body;
+    const {
+      jobDescription,
+      interviewTypes,
+      difficulty,
+      language,
+      model,
+      timing,
+      delivery,
+    } = body;
 
     // Validate request
-    if (!messages || !Array.isArray(messages) || messages.length === 0) {
+    if (!body.messages || !Array.isArray(body.messages) || body.messages.length === 0) {
       return NextResponse.json(
         { error: "Invalid request: messages array is required and must not be empty" },
         { status: 400 }
       );
     }
 
-    const provider = detectProvider();
+    // Test results only count from the server's own runs of each submission
+    const session = typeof body.sessionId === "string" ? await getSession(body.sessionId) : null;
+    const messages = attachTestRuns(body.messages, session?.testRuns);
 
-    if (!provider) {
-      return NextResponse.json(
-        {
-          error:
-            "No API keys configured. Please set one of: OPENAI_API_KEY, ANTHROPIC_API_KEY, or HUGGINGFACE_API_KEY",
-        },
-        { status: 500 }
-      );
-    }
+    const selection = await resolveProvider(body.provider, model);
 
-    const prompt = getScorecardPrompt(messages, jobDescription, interviewTypes, difficulty);
-    let scorecard: ScorecardResponse;
-
-    switch (provider) {
-      case "openai":
-        scorecard = await callOpenAI(prompt);
-        break;
-      case "anthropic":
-        scorecard = await callAnthropic(prompt);
-        break;
-      case "huggingface":
-        scorecard = await callHuggingFace(prompt);
-        break;
-      default:
-        throw new Error("Unknown provider");
+    if (selection.error !== undefined) {
+      return NextResponse.json({ error: selection.error }, { status: selection.status });
     }
 
+    const tests = getTestSummary(messages);
+    // Auto-graded multiple-choice results per topic
+    const quizScores = getQuizScores(messages);
+    const rubric = getRubric(interviewTypes);
+    const prompt = getScorecardPrompt(
+      messages,
+      jobDescription,
+      interviewTypes,
+      difficulty,
+      timing,
+      language,
+      tests,
+      quizScores,
+      delivery,
+      rubric
+    );
+    const content = await completeWithFailover(getFailoverChain(selection), prompt, {
+      // Room for a model answer per question
+      maxTokens: 4096,
+      temperature: 0.7,
+      json: true,
+      signal: request.signal,
+    });
+    const scorecard = parseScorecard(
+      content,
+      messages.length,
+      rubric,
+      timing,
+      tests,
+      quizScores,
+      delivery
+    );
+
     return NextResponse.json(scorecard);
   } catch (error) {
     console.error("Scorecard API error:", error);
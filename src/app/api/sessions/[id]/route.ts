@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteSession, getSession, updateSession } from "@/lib/sessionStore";
+import type { UpdateSessionRequest } from "@/types/session";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound() {
+  return NextResponse.json({ error: "Session not found" }, { status: 404 });
+}
+
+function serverError(error: unknown) {
+  console.error("Sessions API error:", error);
+  const errorMessage = error instanceof Error ? error.message : "Unexpected error";
+  return NextResponse.json({ error: errorMessage }, { status: 500 });
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getSession((await params).id);
+    return session ? NextResponse.json(session) : notFound();
+  } catch (error) {
+    return serverError(error);
+  }
+}
+
+// Only the transcript, scorecard and status change after creation. The start
+// time is the server's, so the time limit can't be pushed back.
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body: UpdateSessionRequest = await request.json();
+    const update: UpdateSessionRequest = {};
+    if (body.status) update.status = body.status;
+    if (Array.isArray(body.messages)) update.messages = body.messages;
+    if (body.scorecard !== undefined) update.scorecard = body.scorecard;
+
+    const session = await updateSession((await params).id, update);
+    return session ? NextResponse.json(session) : notFound();
+  } catch (error) {
+    return serverError(error);
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const deleted = await deleteSession((await params).id);
+    return deleted ? new Response(null, { status: 204 }) : notFound();
+  } catch (error) {
+    return serverError(error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSession, listSessions } from "@/lib/sessionStore";
+import type { CreateSessionRequest, SessionStatus } from "@/types/session";
+
+// List saved sessions, optionally filtered with ?status=in-progress|completed
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get("status") as SessionStatus | null;
+    const sessions = await listSessions();
+    return NextResponse.json({
+      sessions: status ? sessions.filter((s) => s.status === status) : sessions,
+    });
+  } catch (error) {
+    console.error("Sessions API error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unexpected error";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: CreateSessionRequest = await request.json();
+    const session = await createSession(body);
+    return NextResponse.json(session, { status: 201 });
+  } catch (error) {
+    console.error("Sessions API error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unexpected error";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
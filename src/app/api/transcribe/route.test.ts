@@ -0,0 +1,70 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MAX_RECORDING_BYTES } from "@/lib/stt";
+import { POST } from "./route";
+
+// Stands in for the Whisper server: the transcript is the audio it was sent
+const whisper = vi.fn(async (_url: string, init: RequestInit) => {
+  const file = (init.body as FormData).get("file") as Blob;
+  return Response.json({ text: ` ${await file.text()} ` });
+});
+
+function transcribe(id: string, audio: Blob | string, final = false) {
+  const form = new FormData();
+  form.append("audio", typeof audio === "string" ? new Blob([audio]) : audio);
+  form.append("utteranceId", id);
+  if (final) form.append("final", "true");
+  return POST(
+    new NextRequest("http://localhost/api/transcribe", { method: "POST", body: form })
+  );
+}
+
+beforeEach(() => {
+  vi.stubEnv("WHISPER_URL", "http://whisper.test");
+  vi.stubGlobal("fetch", whisper);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  whisper.mockClear();
+});
+
+describe("POST /api/transcribe", () => {
+  it("transcribes everything recorded so far for each chunk", async () => {
+    expect(await (await transcribe("assembled", "head")).json()).toEqual({
+      text: "head",
+      isFinal: false,
+    });
+    expect(await (await transcribe("assembled", "-tail", true)).json()).toEqual({
+      text: "head-tail",
+      isFinal: true,
+    });
+    expect(whisper).toHaveBeenCalledWith("http://whisper.test/v1/audio/transcriptions", expect.anything());
+
+    // The final chunk closes the utterance
+    expect(await (await transcribe("assembled", "next")).json()).toMatchObject({ text: "next" });
+  });
+
+  it("rejects an utterance larger than the limit", async () => {
+    await transcribe("large", "head");
+    const response = await transcribe("large", new Blob([new Uint8Array(MAX_RECORDING_BYTES)]));
+    expect(response.status).toBe(413);
+    expect(whisper).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports backend errors", async () => {
+    whisper.mockResolvedValueOnce(new Response("model not loaded", { status: 503 }));
+    const response = await transcribe("failing", "audio", true);
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toBe("Whisper API error: 503 - model not loaded");
+  });
+
+  it("needs a configured backend and both fields", async () => {
+    vi.stubEnv("WHISPER_URL", "");
+    expect((await transcribe("unconfigured", "audio")).status).toBe(503);
+    vi.stubEnv("WHISPER_URL", "http://whisper.test");
+    expect((await transcribe("", "audio")).status).toBe(400);
+    expect(whisper).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  appendChunk,
+  detectSTTProvider,
+  discardRecording,
+  MAX_RECORDING_BYTES,
+  sttProviders,
+} from "@/lib/stt";
+
+export interface TranscribeResponse {
+  text: string;
+  // false for interim transcripts taken while the candidate is still speaking
+  isFinal: boolean;
+}
+
+// Accepts one MediaRecorder chunk at a time as multipart form data:
+//   audio        the chunk
+//   utteranceId  groups the chunks of one answer
+//   final        "true" on the last chunk
+//   language     optional ISO-639-1 hint
+export async function POST(request: NextRequest) {
+  let utteranceId = "";
+  let isFinal = false;
+
+  try {
+    const form = await request.formData();
+    const audio = form.get("audio");
+    utteranceId = String(form.get("utteranceId") || "");
+    isFinal = form.get("final") === "true";
+    const language = form.get("language") ? String(form.get("language")) : undefined;
+
+    if (!(audio instanceof Blob) || !utteranceId) {
+      return NextResponse.json(
+        { error: "audio and utteranceId are required" },
+        { status: 400 }
+      );
+    }
+
+    const provider = detectSTTProvider();
+    if (!provider) {
+      const keys = sttProviders.map((p) => p.envKey).join(" or ");
+      return NextResponse.json(
+        { error: `No speech-to-text backend configured. Set ${keys}` },
+        { status: 503 }
+      );
+    }
+
+    const recording = appendChunk(utteranceId, audio);
+    if (!recording) {
+      return NextResponse.json(
+        { error: `Recording exceeds ${MAX_RECORDING_BYTES / (1024 * 1024)} MB` },
+        { status: 413 }
+      );
+    }
+
+    const transcript =
+      recording.size > 0
+        ? await provider.transcribe(recording, { language, signal: request.signal })
+        : { text: "" };
+
+    if (isFinal) discardRecording(utteranceId);
+
+    const response: TranscribeResponse = { text: transcript.text, isFinal };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (isFinal && utteranceId) discardRecording(utteranceId);
+    if (request.signal.aborted) {
+      return new Response(null, { status: 499 });
+    }
+    console.error("Transcribe API error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unexpected error";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+// Tells the client whether server-side transcription is available
+export async function GET() {
+  const provider = detectSTTProvider();
+  return NextResponse.json({
+    status: "ok",
+    provider: provider?.id || "none",
+    availableProviders: Object.fromEntries(sttProviders.map((p) => [p.id, p.isConfigured()])),
+  });
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { detectEngine, engines } from "@/lib/tts";
+import type { TTSVoice } from "@/lib/tts";
+
+interface TTSRequest {
+  text: string;
+  voice?: TTSVoice;
+  language?: string;
+  speed?: number;
+}
+
+// Long enough for a few sentences; the client sends one sentence at a time
+const MAX_TEXT_LENGTH = 2000;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: TTSRequest = await request.json();
+    const text = body.text?.trim();
+
+    if (!text) {
+      return NextResponse.json({ error: "text is required" }, { status: 400 });
+    }
+    if (text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json(
+        { error: `text must be at most ${MAX_TEXT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const engine = detectEngine();
+    if (!engine) {
+      const keys = engines.map((e) => e.envKey).join(" or ");
+      return NextResponse.json(
+        { error: `No TTS engine configured. Set ${keys}` },
+        { status: 503 }
+      );
+    }
+
+    const { audio, contentType } = await engine.synthesize(text, {
+      voice: body.voice,
+      language: body.language,
+      speed: body.speed,
+      signal: request.signal,
+    });
+
+    return new Response(audio, {
+      headers: {
+        "Content-Type": contentType,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (request.signal.aborted) {
+      return new Response(null, { status: 499 });
+    }
+    console.error("TTS API error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unexpected error";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+// Tells the client whether server-side speech is available
+export async function GET() {
+  const engine = detectEngine();
+  return NextResponse.json({
+    status: "ok",
+    engine: engine?.id || "none",
+    availableEngines: Object.fromEntries(engines.map((e) => [e.id, e.isConfigured()])),
+  });
+}
@@ -1,10 +1,14 @@
 "use client";
 
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
 import dynamic from "next/dynamic";
 import { useInterviewStore } from "@/store/useInterviewStore";
-import { Briefcase, MessageSquare, CheckCircle } from "lucide-react";
+import { useSessionPersistence } from "@/hooks/useSessionPersistence";
+import { Briefcase, MessageSquare, CheckCircle, History, PlayCircle } from "lucide-react";
 import SetupForm from "@/components/SetupForm";
+import Scorecard from "@/components/Scorecard";
+import HistoryDashboard from "@/components/HistoryDashboard";
+import SessionReview from "@/components/SessionReview";
 
 // Dynamic imports for components with Three.js to avoid SSR issues
 const InterviewerScene = dynamic(
@@ -28,17 +32,39 @@ export default function Home() {
     setCurrentStep,
     clearMessages,
     resetInterview,
+    startSessionClock,
+    scorecard,
+    isScorecardLoading,
+    scorecardError,
   } = useInterviewStore();
+  const { startSession } = useSessionPersistence();
+  // Sessions recorded in this tab, or saved with offsets into a downloaded recording
+  const hasRecording = messages.some((m) => m.recordingOffset !== undefined);
+  // Message the review opens at, when coming from the question breakdown
+  const [reviewMessageIndex, setReviewMessageIndex] = useState<number | null>(null);
 
-  const handleStartInterview = useCallback(() => {
+  const openReview = useCallback(
+    (messageIndex: number | null) => {
+      setReviewMessageIndex(messageIndex);
+      setCurrentStep("review");
+    },
+    [setCurrentStep]
+  );
+
+  // The server refuses chat turns without a saved session, so the interview
+  // only opens once it exists. Failures surface in the setup form.
+  const handleStartInterview = useCallback(async () => {
+    await startSession();
     clearMessages();
+    startSessionClock();
     setCurrentStep("interviewing");
-  }, [clearMessages, setCurrentStep]);
+  }, [clearMessages, startSessionClock, startSession, setCurrentStep]);
 
   const steps = [
     { id: "setup", label: "Setup", icon: Briefcase },
     { id: "interviewing", label: "Interview", icon: MessageSquare },
     { id: "feedback", label: "Feedback", icon: CheckCircle },
+    { id: "history", label: "History", icon: History },
   ] as const;
 
   return (
@@ -47,16 +73,33 @@ export default function Home() {
       <div className="flex items-center justify-center mb-6">
         {steps.map((step, index) => (
           <div key={step.id} className="flex items-center">
-            <div
-              className={`flex items-center gap-2 px-4 py-2 rounded-full transition-all ${
-                currentStep === step.id
-                  ? "bg-primary text-primary-foreground"
-                  : "bg-secondary text-secondary-foreground"
-              }`}
-            >
-              <step.icon className="w-4 h-4" />
-              <span className="text-sm font-medium">{step.label}</span>
-            </div>
+            {step.id === "history" ? (
+              // History can be opened any time outside a running interview
+              <button
+                type="button"
+                onClick={() => setCurrentStep("history")}
+                disabled={currentStep === "interviewing"}
+                className={`flex items-center gap-2 px-4 py-2 rounded-full transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                  currentStep === step.id
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                }`}
+              >
+                <step.icon className="w-4 h-4" />
+                <span className="text-sm font-medium">{step.label}</span>
+              </button>
+            ) : (
+              <div
+                className={`flex items-center gap-2 px-4 py-2 rounded-full transition-all ${
+                  currentStep === step.id
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-secondary text-secondary-foreground"
+                }`}
+              >
+                <step.icon className="w-4 h-4" />
+                <span className="text-sm font-medium">{step.label}</span>
+              </div>
+            )}
             {index < steps.length - 1 && (
               <div className="w-12 h-0.5 bg-border mx-2" />
             )}
@@ -71,6 +114,27 @@ export default function Home() {
           <SetupForm onStartInterview={handleStartInterview} />
         )}
 
+        {/* History Step */}
+        {currentStep === "history" && (
+          <div className="space-y-4">
+            <HistoryDashboard />
+            <button
+              onClick={resetInterview}
+              className="w-full bg-primary hover:bg-primary/90 text-primary-foreground font-medium py-3 px-6 rounded-lg transition-colors"
+            >
+              Start New Interview
+            </button>
+          </div>
+        )}
+
+        {/* Review Step - recording with the timestamped transcript */}
+        {currentStep === "review" && (
+          <SessionReview
+            onBack={() => setCurrentStep("feedback")}
+            focusMessageIndex={reviewMessageIndex}
+          />
+        )}
+
         {/* Interview Step - Full InterviewPage Component */}
         {currentStep === "interviewing" && <InterviewPage />}
 
@@ -80,7 +144,7 @@ export default function Home() {
             {/* 3D Scene in feedback mode */}
             <div className="bg-card rounded-xl border border-border shadow-lg overflow-hidden">
               <div className="h-[350px]">
-                <InterviewerScene isSpeaking={false} />
+                <InterviewerScene state="ended" />
               </div>
               <div className="p-4 border-t border-border">
                 <span className="text-sm text-muted-foreground">
@@ -143,6 +207,16 @@ export default function Home() {
                 )}
               </div>
 
+              {hasRecording && (
+                <button
+                  onClick={() => openReview(null)}
+                  className="w-full flex items-center justify-center gap-2 mb-3 bg-secondary hover:bg-secondary/80 text-foreground font-medium py-3 px-6 rounded-lg border border-border transition-colors"
+                >
+                  <PlayCircle className="w-4 h-4" />
+                  Review Recording
+                </button>
+              )}
+
               <button
                 onClick={resetInterview}
                 className="w-full bg-primary hover:bg-primary/90 text-primary-foreground font-medium py-3 px-6 rounded-lg transition-colors"
@@ -150,6 +224,19 @@ export default function Home() {
                 Start New Interview
               </button>
             </div>
+
+            {/* Scorecard, e.g. generated when the session timed out */}
+            {(scorecard || isScorecardLoading || scorecardError) && (
+              <div className="lg:col-span-2 bg-card rounded-xl p-6 border border-border shadow-lg">
+                <Scorecard
+                  scorecard={scorecard}
+                  isLoading={isScorecardLoading}
+                  error={scorecardError}
+                  onNewInterview={resetInterview}
+                  onViewMessage={openReview}
+                />
+              </div>
+            )}
           </div>
         )}
       </div>
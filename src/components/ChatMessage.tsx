@@ -1,15 +1,80 @@
 "use client";
 
-import { Bot, User } from "lucide-react";
+import { Bot, CheckCircle2, FlaskConical, User, XCircle } from "lucide-react";
 import { Message } from "@/store/useInterviewStore";
+import { getCodeLanguageLabel } from "@/lib/code";
+import { extractTestSuite, stripTestSuite } from "@/lib/testCases";
+import { getOptionLetter } from "@/lib/quiz/extractor";
+import type { QuizGrade, QuizQuestion } from "@/types/quiz";
+import CodeBlock from "./CodeBlock";
+import WhiteboardDiagram from "./WhiteboardDiagram";
 
 interface ChatMessageProps {
   message: Message;
   isStreaming?: boolean;
+  // Set while the message's quiz question can be answered
+  onQuizAnswer?: (choice: number) => void;
 }
 
-export default function ChatMessage({ message, isStreaming = false }: ChatMessageProps) {
+function QuizCard({
+  quiz,
+  grade,
+  onAnswer,
+}: {
+  quiz: QuizQuestion;
+  grade?: QuizGrade;
+  onAnswer?: (choice: number) => void;
+}) {
+  const optionClass = (index: number) => {
+    if (grade?.correctIndex === index) return "border-green-400/60 bg-green-400/10";
+    if (grade?.choice === index) return "border-red-400/60 bg-red-400/10";
+    if (onAnswer) return "border-border hover:border-primary/50 hover:bg-secondary";
+    return "border-border opacity-70";
+  };
+
+  return (
+    <div className="mt-2 rounded-lg border border-border bg-secondary/50 p-3 space-y-2">
+      <div className="text-xs text-muted-foreground">Quiz · {quiz.topic}</div>
+      <p className="text-sm font-medium text-foreground">{quiz.question}</p>
+      <div className="space-y-1.5">
+        {quiz.options.map((option, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onAnswer?.(index)}
+            disabled={!onAnswer}
+            className={`w-full flex items-start gap-2 px-3 py-2 text-left text-sm rounded-lg border transition-colors disabled:cursor-default ${optionClass(
+              index
+            )}`}
+          >
+            <span className="font-semibold text-muted-foreground">{getOptionLetter(index)}.</span>
+            <span className="flex-1 text-foreground/90">{option}</span>
+            {grade?.correctIndex === index && (
+              <CheckCircle2 className="w-4 h-4 shrink-0 text-green-400" />
+            )}
+            {grade && grade.choice === index && !grade.correct && (
+              <XCircle className="w-4 h-4 shrink-0 text-red-400" />
+            )}
+          </button>
+        ))}
+      </div>
+      {grade && (
+        <p className="text-xs text-muted-foreground">
+          <span className={grade.correct ? "text-green-400" : "text-red-400"}>
+            {grade.correct ? "Correct." : "Incorrect."}
+          </span>{" "}
+          {grade.explanation}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function ChatMessage({ message, isStreaming = false, onQuizAnswer }: ChatMessageProps) {
   const isAssistant = message.role === "assistant";
+  const testSuite = isAssistant ? extractTestSuite(message.content) : null;
+  const content = isAssistant ? stripTestSuite(message.content) : message.content;
+  const testResults = message.code?.testResults;
 
   return (
     <div
@@ -44,15 +109,59 @@ export default function ChatMessage({ message, isStreaming = false }: ChatMessag
               typing...
             </span>
           )}
-        </div>
-        <div className="text-sm text-foreground/90 whitespace-pre-wrap break-words">
-          {message.content || (
-            <span className="text-muted-foreground italic">...</span>
-          )}
-          {isStreaming && (
-            <span className="inline-block w-2 h-4 ml-0.5 bg-primary/50 animate-pulse" />
+          {message.interrupted && (
+            <span className="text-xs text-muted-foreground italic">
+              (interrupted)
+            </span>
           )}
         </div>
+        {message.code ? (
+          <div className="rounded-lg border border-border bg-secondary/50 overflow-hidden">
+            <div className="flex items-center justify-between gap-2 px-3 py-1.5 text-xs text-muted-foreground border-b border-border">
+              <span>Code submission · {getCodeLanguageLabel(message.code.language)}</span>
+              {testResults && (
+                <span
+                  className={
+                    testResults.passed === testResults.total ? "text-green-400" : "text-red-400"
+                  }
+                >
+                  {testResults.passed}/{testResults.total} tests passed
+                </span>
+              )}
+            </div>
+            <CodeBlock
+              source={message.code.source}
+              language={message.code.language}
+              className="p-3 overflow-x-auto text-foreground"
+            />
+          </div>
+        ) : (
+          <div className="text-sm text-foreground/90 whitespace-pre-wrap break-words">
+            {content ||
+              (!message.quiz && <span className="text-muted-foreground italic">...</span>)}
+            {isStreaming && (
+              <span className="inline-block w-2 h-4 ml-0.5 bg-primary/50 animate-pulse" />
+            )}
+          </div>
+        )}
+        {message.whiteboard && (
+          <div className="mt-2 max-w-sm rounded-lg border border-border bg-secondary/50 overflow-hidden">
+            <div className="px-3 py-1.5 text-xs text-muted-foreground border-b border-border">
+              Whiteboard
+            </div>
+            <WhiteboardDiagram state={message.whiteboard} className="w-full h-auto" />
+          </div>
+        )}
+        {message.quiz && (
+          <QuizCard quiz={message.quiz} grade={message.quizGrade} onAnswer={onQuizAnswer} />
+        )}
+        {testSuite && (
+          <p className="flex items-center gap-1.5 mt-2 text-xs text-muted-foreground">
+            <FlaskConical className="w-3.5 h-3.5" />
+            {testSuite.cases.length} test cases for{" "}
+            <code className="font-mono">{testSuite.functionName}</code> loaded into the editor
+          </p>
+        )}
       </div>
     </div>
   );
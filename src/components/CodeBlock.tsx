@@ -0,0 +1,42 @@
+"use client";
+
+import { useMemo } from "react";
+import { tokenize } from "@/lib/code";
+import type { TokenType } from "@/lib/code";
+
+const tokenClasses: Record<TokenType, string> = {
+  keyword: "text-primary",
+  string: "text-green-400",
+  comment: "text-muted-foreground italic",
+  number: "text-amber-400",
+  plain: "",
+};
+
+interface CodeBlockProps {
+  source: string;
+  language: string;
+  className?: string;
+}
+
+// Syntax-highlighted code, shared by the editor overlay and chat messages
+export default function CodeBlock({ source, language, className = "" }: CodeBlockProps) {
+  const tokens = useMemo(() => tokenize(source, language), [source, language]);
+
+  return (
+    <pre className={`font-mono text-xs leading-5 whitespace-pre ${className}`}>
+      <code>
+        {tokens.map((token, i) =>
+          token.type === "plain" ? (
+            token.text
+          ) : (
+            <span key={i} className={tokenClasses[token.type]}>
+              {token.text}
+            </span>
+          )
+        )}
+        {/* Keeps a trailing newline visible so the overlay lines up with the textarea */}
+        {"\n"}
+      </code>
+    </pre>
+  );
+}
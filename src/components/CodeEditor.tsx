@@ -0,0 +1,206 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import { CheckCircle2, Code, Loader2, Play, Send, XCircle } from "lucide-react";
+import CodeBlock from "./CodeBlock";
+import { codeLanguages } from "@/lib/code";
+import type { CodeLanguage } from "@/lib/code";
+import { useCodeExecution } from "@/hooks/useCodeExecution";
+import type { CodeSubmission } from "@/types/chat";
+import type { ExecutionResult, TestSuite } from "@/types/execute";
+
+interface CodeEditorProps {
+  onSubmit: (code: CodeSubmission) => void;
+  disabled?: boolean;
+  // Test cases for the current problem, if the interviewer gave any
+  tests?: TestSuite | null;
+}
+
+const INDENT = "  ";
+
+const show = (value: unknown) => (value === undefined ? "undefined" : JSON.stringify(value));
+
+function TestResults({ result }: { result: ExecutionResult }) {
+  return (
+    <div className="max-h-48 overflow-y-auto px-3 py-2 border-t border-border space-y-1.5 text-xs">
+      <p
+        className={`font-medium ${
+          result.passed === result.total ? "text-green-400" : "text-red-400"
+        }`}
+      >
+        {result.passed}/{result.total} tests passed
+        {result.error && <span className="font-normal"> · {result.error}</span>}
+      </p>
+      <ul className="space-y-1 font-mono">
+        {result.results.map((r, i) => (
+          <li key={i} className="flex items-start gap-1.5">
+            {r.passed ? (
+              <CheckCircle2 className="w-3.5 h-3.5 mt-0.5 shrink-0 text-green-400" />
+            ) : (
+              <XCircle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-red-400" />
+            )}
+            <span className="break-all text-foreground/90">
+              {result.functionName}({r.args.map(show).join(", ")})
+              {!r.passed && (
+                <span className="text-muted-foreground">
+                  {" "}
+                  expected {show(r.expected)}, {r.error ? r.error : `got ${show(r.actual)}`}
+                </span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {result.stdout && (
+        <pre className="p-2 rounded bg-secondary/50 text-muted-foreground whitespace-pre-wrap break-all">
+          {result.stdout}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+export default function CodeEditor({ onSubmit, disabled = false, tests = null }: CodeEditorProps) {
+  const [language, setLanguage] = useState<CodeLanguage>("javascript");
+  const [source, setSource] = useState("");
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const { run, reset, result, isRunning, error, runnableLanguages } = useCodeExecution();
+
+  const canRun = !!tests && runnableLanguages.includes(language);
+  // Results only count for the code and problem they were produced from
+  const currentResult = result && result.functionName === tests?.functionName ? result : null;
+
+  const updateSource = (next: string) => {
+    setSource(next);
+    if (result || error) reset();
+  };
+
+  const handleRun = useCallback(() => {
+    if (!tests || !source.trim()) return;
+    run({ language, source }, tests);
+  }, [tests, source, language, run]);
+
+  // Keep the highlighted layer scrolled with the textarea on top of it
+  const handleScroll = () => {
+    if (highlightRef.current && textareaRef.current) {
+      highlightRef.current.scrollTop = textareaRef.current.scrollTop;
+      highlightRef.current.scrollLeft = textareaRef.current.scrollLeft;
+    }
+  };
+
+  // The server runs submissions against the interviewer's tests itself
+  const handleSubmit = useCallback(() => {
+    if (!source.trim() || disabled || isRunning) return;
+    onSubmit({ language, source });
+  }, [source, language, disabled, isRunning, onSubmit]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Tab indents instead of leaving the editor
+    if (e.key === "Tab" && !e.shiftKey) {
+      e.preventDefault();
+      const { selectionStart, selectionEnd } = e.currentTarget;
+      const next = source.slice(0, selectionStart) + INDENT + source.slice(selectionEnd);
+      updateSource(next);
+      requestAnimationFrame(() => {
+        textareaRef.current?.setSelectionRange(
+          selectionStart + INDENT.length,
+          selectionStart + INDENT.length
+        );
+      });
+    }
+
+    // Ctrl/Cmd + Enter submits
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-[240px]">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-border">
+        <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <Code className="w-4 h-4 text-muted-foreground" />
+          Code Editor
+        </div>
+        {tests && (
+          <span className="flex-1 truncate text-xs text-muted-foreground font-mono">
+            {tests.functionName} · {tests.cases.length} tests
+          </span>
+        )}
+        <select
+          value={language}
+          onChange={(e) => {
+            setLanguage(e.target.value as CodeLanguage);
+            if (result || error) reset();
+          }}
+          className="bg-secondary border border-border rounded-md px-2 py-1 text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+        >
+          {codeLanguages.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Editor: a transparent textarea over the highlighted code */}
+      <div className="relative flex-1 min-h-0 bg-secondary/30">
+        <div
+          ref={highlightRef}
+          aria-hidden
+          className="absolute inset-0 overflow-hidden p-3 pointer-events-none text-foreground"
+        >
+          <CodeBlock source={source} language={language} />
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={source}
+          onChange={(e) => updateSource(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onScroll={handleScroll}
+          spellCheck={false}
+          placeholder="Write your solution here..."
+          className="absolute inset-0 w-full h-full resize-none bg-transparent p-3 font-mono text-xs leading-5 whitespace-pre overflow-auto text-transparent caret-foreground placeholder:text-muted-foreground focus:outline-none"
+        />
+      </div>
+
+      {/* Test Results */}
+      {currentResult && <TestResults result={currentResult} />}
+      {error && (
+        <p className="px-3 py-2 border-t border-border text-xs text-red-400">{error}</p>
+      )}
+
+      {/* Run and Submit */}
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-t border-border">
+        <span className="text-xs text-muted-foreground">Ctrl + Enter to submit</span>
+        <div className="flex items-center gap-2">
+          {canRun && (
+            <button
+              onClick={handleRun}
+              disabled={isRunning || !source.trim()}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium bg-secondary hover:bg-secondary/80 disabled:opacity-50 disabled:cursor-not-allowed text-foreground border border-border rounded-lg transition-colors"
+            >
+              {isRunning ? (
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              ) : (
+                <Play className="w-3.5 h-3.5" />
+              )}
+              Run Tests
+            </button>
+          )}
+          <button
+            onClick={handleSubmit}
+            disabled={disabled || isRunning || !source.trim()}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium bg-primary hover:bg-primary/90 disabled:bg-primary/50 disabled:cursor-not-allowed text-primary-foreground rounded-lg transition-colors"
+          >
+            <Send className="w-3.5 h-3.5" />
+            Submit Code
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
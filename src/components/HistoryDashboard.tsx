@@ -0,0 +1,333 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  History,
+  TrendingUp,
+  Loader2,
+  AlertCircle,
+  Trash2,
+  ChevronRight,
+} from "lucide-react";
+import { useInterviewStore } from "@/store/useInterviewStore";
+import type { InterviewType } from "@/store/useInterviewStore";
+import type { InterviewSession, SessionSummary } from "@/types/session";
+
+const interviewTypeLabels: Record<InterviewType, string> = {
+  coding: "Coding",
+  "multiple-choice": "Multiple Choice",
+  behavioral: "Behavioral",
+  technical: "Technical",
+  hr: "HR",
+  "hiring-manager": "Hiring Manager",
+};
+
+interface TrendSeries {
+  label: string;
+  className: string;
+  values: (number | null)[];
+}
+
+// Series colors, cycled when there are more rubric dimensions than colors
+const SERIES_COLORS = [
+  "text-primary",
+  "text-accent",
+  "text-green-400",
+  "text-yellow-400",
+  "text-sky-400",
+  "text-pink-400",
+];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = 24;
+
+// Simple SVG line chart of 0-10 scores, one point per session
+function TrendChart({ series, dates }: { series: TrendSeries[]; dates: string[] }) {
+  const count = dates.length;
+  const x = (i: number) =>
+    count === 1
+      ? CHART_WIDTH / 2
+      : CHART_PADDING + (i * (CHART_WIDTH - CHART_PADDING * 2)) / (count - 1);
+  const y = (score: number) =>
+    CHART_HEIGHT - CHART_PADDING - (score / 10) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  return (
+    <div className="space-y-2">
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Score trend"
+      >
+        {/* Grid lines at 0, 5 and 10 */}
+        {[0, 5, 10].map((score) => (
+          <g key={score}>
+            <line
+              x1={CHART_PADDING}
+              x2={CHART_WIDTH - CHART_PADDING}
+              y1={y(score)}
+              y2={y(score)}
+              className="stroke-border"
+              strokeDasharray="4 4"
+            />
+            <text
+              x={4}
+              y={y(score) + 4}
+              className="fill-muted-foreground text-[10px]"
+            >
+              {score}
+            </text>
+          </g>
+        ))}
+
+        {series.map((s) => {
+          const points = s.values
+            .map((value, i) => (value === null ? null : `${x(i)},${y(value)}`))
+            .filter((p): p is string => p !== null);
+
+          return (
+            <g key={s.label} className={s.className}>
+              <polyline
+                points={points.join(" ")}
+                fill="none"
+                stroke="currentColor"
+                strokeWidth={2}
+              />
+              {s.values.map((value, i) =>
+                value === null ? null : (
+                  <circle key={i} cx={x(i)} cy={y(value)} r={4} fill="currentColor">
+                    <title>{`${s.label}: ${value} (${dates[i]})`}</title>
+                  </circle>
+                )
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        {series.map((s) => (
+          <span key={s.label} className="flex items-center gap-1.5">
+            <span className={`w-3 h-0.5 bg-current ${s.className}`} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function formatDate(timestamp: number) {
+  return new Date(timestamp).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+export default function HistoryDashboard() {
+  const { resumeSession } = useInterviewStore();
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<InterviewType | null>(null);
+
+  // Load saved sessions
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/sessions")
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `HTTP error: ${res.status}`);
+        if (!cancelled) setSessions(data.sessions);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load history");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const filteredSessions = useMemo(
+    () =>
+      typeFilter
+        ? sessions.filter((s) => s.interviewTypes.includes(typeFilter))
+        : sessions,
+    [sessions, typeFilter]
+  );
+
+  // Scored sessions, oldest first, for the trend chart
+  const scoredSessions = useMemo(
+    () =>
+      filteredSessions
+        .filter((s) => s.overallScore !== null)
+        .sort((a, b) => a.createdAt - b.createdAt),
+    [filteredSessions]
+  );
+
+  // One line per rubric dimension scored in any of those sessions
+  const trendSeries = useMemo(() => {
+    const labels = new Map<string, string>();
+    for (const session of scoredSessions) {
+      for (const { id, label } of session.dimensionScores) {
+        if (!labels.has(id)) labels.set(id, label);
+      }
+    }
+    return [...labels].map(
+      ([id, label], i): TrendSeries => ({
+        label,
+        className: SERIES_COLORS[i % SERIES_COLORS.length],
+        values: scoredSessions.map(
+          (s) => s.dimensionScores.find((d) => d.id === id)?.score ?? null
+        ),
+      })
+    );
+  }, [scoredSessions]);
+
+  // Only offer filters for types that appear in the history
+  const availableTypes = useMemo(
+    () =>
+      (Object.keys(interviewTypeLabels) as InterviewType[]).filter((type) =>
+        sessions.some((s) => s.interviewTypes.includes(type))
+      ),
+    [sessions]
+  );
+
+  const handleOpen = useCallback(
+    async (id: string) => {
+      try {
+        const res = await fetch(`/api/sessions/${id}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `HTTP error: ${res.status}`);
+        resumeSession(data as InterviewSession);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to open session");
+      }
+    },
+    [resumeSession]
+  );
+
+  const handleDelete = useCallback(async (id: string) => {
+    try {
+      const res = await fetch(`/api/sessions/${id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error(`HTTP error: ${res.status}`);
+      setSessions((prev) => prev.filter((s) => s.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete session");
+    }
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 bg-card rounded-xl border border-border">
+        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-card rounded-xl p-6 border border-border shadow-lg space-y-6">
+      <div className="flex items-center gap-2">
+        <History className="w-5 h-5 text-primary" />
+        <h2 className="text-xl font-bold text-foreground">Interview History</h2>
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-1.5 text-sm text-red-400">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </p>
+      )}
+
+      {sessions.length === 0 ? (
+        <div className="bg-secondary/50 rounded-lg p-4">
+          <h3 className="font-medium mb-2">No Interviews Yet</h3>
+          <p className="text-sm text-muted-foreground">
+            Completed interviews will appear here so you can track your progress.
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Type Filters */}
+          <div className="flex flex-wrap gap-2">
+            {[null, ...availableTypes].map((type) => (
+              <button
+                key={type ?? "all"}
+                type="button"
+                onClick={() => setTypeFilter(type)}
+                className={`px-3 py-1.5 text-xs font-medium rounded-full border transition-colors ${
+                  typeFilter === type
+                    ? "bg-primary text-primary-foreground border-primary"
+                    : "bg-secondary text-foreground border-border hover:border-primary/50"
+                }`}
+              >
+                {type ? interviewTypeLabels[type] : "All"}
+              </button>
+            ))}
+          </div>
+
+          {/* Score Trends */}
+          <div className="bg-secondary/30 rounded-lg p-4 space-y-3">
+            <h3 className="font-semibold text-foreground flex items-center gap-2">
+              <TrendingUp className="w-5 h-5 text-primary" />
+              Progress Over Time
+            </h3>
+            {scoredSessions.length > 0 ? (
+              <TrendChart
+                dates={scoredSessions.map((s) => formatDate(s.createdAt))}
+                series={trendSeries}
+              />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Finish an interview with a scorecard to see your trends.
+              </p>
+            )}
+          </div>
+
+          {/* Session List */}
+          <ul className="divide-y divide-border/50 border border-border rounded-lg">
+            {filteredSessions.map((session) => (
+              <li key={session.id} className="flex items-center gap-3 p-3">
+                <button
+                  type="button"
+                  onClick={() => handleOpen(session.id)}
+                  className="flex-1 min-w-0 flex items-center gap-3 text-left hover:text-primary transition-colors"
+                >
+                  <div className="w-12 h-12 shrink-0 rounded-full border-2 border-border flex items-center justify-center text-lg font-semibold">
+                    {session.overallScore ?? "–"}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {session.interviewTypes.map((t) => interviewTypeLabels[t]).join(", ") ||
+                        "General"}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDate(session.createdAt)} · {session.difficulty} ·{" "}
+                      {session.duration} min
+                      {session.status === "in-progress" && " · In progress"}
+                    </p>
+                  </div>
+                  <ChevronRight className="w-4 h-4 text-muted-foreground shrink-0" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(session.id)}
+                  className="p-2 text-muted-foreground hover:text-red-400 hover:bg-secondary rounded-lg transition-colors"
+                  title="Delete interview"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,27 @@
 "use client";
 
-import { useEffect, useRef, useCallback, useState } from "react";
+import { useEffect, useRef, useCallback, useMemo, useState } from "react";
 import dynamic from "next/dynamic";
 import { useInterviewStore } from "@/store/useInterviewStore";
 import { useChat } from "@/hooks/useChat";
 import { useSpeechSynthesis } from "@/hooks/useSpeechSynthesis";
+import { useSessionTimer } from "@/hooks/useSessionTimer";
+import { useDeliveryAnalytics } from "@/hooks/useDeliveryAnalytics";
+import { createSavedSession } from "@/hooks/useSessionPersistence";
+import { getDeliveryMetrics } from "@/lib/deliveryAnalysis";
+import { formatClock } from "@/lib/sessionClock";
+import { createLipSync } from "@/lib/visemes";
+import { createSentenceSplitter } from "@/lib/sentenceSplitter";
+import type { SentenceSplitter } from "@/lib/sentenceSplitter";
+import { findLatestTestSuite, stripTestSuite } from "@/lib/testCases";
+import type { SessionTiming } from "@/app/api/scorecard/route";
 import ChatMessage from "./ChatMessage";
 import UserResponseInput from "./UserResponseInput";
 import Modal from "./Modal";
 import Scorecard from "./Scorecard";
+import CodeEditor from "./CodeEditor";
+import Whiteboard from "./Whiteboard";
+import MediaControls from "./MediaControls";
 import {
   AlertCircle,
   ArrowLeft,
@@ -18,7 +31,11 @@ import {
   VolumeX,
   Settings,
   ChevronDown,
+  Clock,
+  Code,
+  PenTool,
 } from "lucide-react";
+import type { InterviewerState } from "./InterviewerScene";
 
 
 // Dynamic import for Three.js component to avoid SSR issues
@@ -41,6 +58,14 @@ export default function InterviewPage() {
     jobDescription,
     interviewTypes,
     difficulty,
+    language,
+    duration,
+    sessionStartedAt,
+    startSessionClock,
+    sessionId,
+    setSessionId,
+    aiProvider,
+    aiModel,
     scorecard,
     isScorecardLoading,
     scorecardError,
@@ -52,31 +77,82 @@ export default function InterviewPage() {
     setPreferredVoice,
   } = useInterviewStore();
 
-  const { messages, isLoading, error, sendMessage, startInterview } = useChat({
+  const {
+    messages,
+    isLoading,
+    error,
+    sendMessage,
+    sendCode,
+    answerQuiz,
+    startInterview,
+    stop: stopGenerating,
+  } = useChat({
     onError: (err) => console.error("Chat error:", err),
   });
 
   const [showScorecardModal, setShowScorecardModal] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const isCodingInterview = interviewTypes.includes("coding");
+  // Advanced interviews include system design, drawn on the whiteboard
+  const isSystemDesignInterview = difficulty === "advanced";
+  // Panel beside the chat: the code editor, the whiteboard, or neither
+  const [sidePanel, setSidePanel] = useState<"code" | "whiteboard" | null>(
+    isCodingInterview ? "code" : isSystemDesignInterview ? "whiteboard" : null
+  );
+  const showCodeEditor = isCodingInterview && sidePanel === "code";
+  const showWhiteboard = isSystemDesignInterview && sidePanel === "whiteboard";
+  // Test cases from the interviewer's latest coding problem
+  const testSuite = useMemo(
+    () => (isCodingInterview ? findLatestTestSuite(messages) : null),
+    [isCodingInterview, messages]
+  );
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const hasStartedRef = useRef(false);
   const lastSpokenIndexRef = useRef(-1);
-  const prevIsLoadingRef = useRef(false);
+  const speechStreamRef = useRef<{
+    index: number;
+    consumed: number;
+    splitter: SentenceSplitter;
+  } | null>(null);
+  const hasTimedOutRef = useRef(false);
+  const sceneRef = useRef<HTMLDivElement>(null);
+  const [lipSync] = useState(createLipSync);
+  // Camera and mic stream from the media controls, once started
+  const [mediaStream, setMediaStream] = useState<MediaStream | null>(null);
+
+  // Session countdown against the selected duration
+  const { remainingSeconds, phase, isRunning: isClockRunning } = useSessionTimer();
+  const isTimeUp = isClockRunning && phase === "expired";
 
   // Speech synthesis hook
   const {
-    speak,
+    enqueue,
     stop: stopSpeaking,
     isSpeaking: isTTSSpeaking,
     isSupported: isTTSSupported,
+    captureOutput: captureInterviewerAudio,
+    canCaptureOutput: canRecordInterviewer,
   } = useSpeechSynthesis({
     rate: 1.0,
     pitch: 1.0,
     preferredGender: preferredVoice,
-    onStart: () => setIsSpeaking(true),
-    onEnd: () => setIsSpeaking(false),
-    onError: () => setIsSpeaking(false),
+    lang: language,
+    onStart: () => {
+      lipSync.reset();
+      setIsSpeaking(true);
+    },
+    onEnd: () => {
+      lipSync.reset();
+      setIsSpeaking(false);
+    },
+    onError: () => {
+      lipSync.reset();
+      setIsSpeaking(false);
+    },
+    onBoundary: (boundary) => {
+      if (boundary.name === "word") lipSync.pushWord(boundary.word);
+    },
   });
 
   // Sync TTS speaking state with store
@@ -84,6 +160,17 @@ export default function InterviewPage() {
     setIsSpeaking(isTTSSpeaking);
   }, [isTTSSpeaking, setIsSpeaking]);
 
+  // Speaking rate, pauses and volume from the mic, sent with the scorecard request
+  const { getStats: getDeliveryStats, reset: resetDeliveryStats } = useDeliveryAnalytics(
+    mediaStream,
+    isTTSSpeaking
+  );
+
+  const handleAnswer = useCallback(
+    (answer: string, spoken: boolean) => sendMessage(answer, { spoken }),
+    [sendMessage]
+  );
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     if (chatContainerRef.current) {
@@ -100,58 +187,157 @@ export default function InterviewPage() {
     }
   }, [startInterview, messages.length]);
 
-  // Speak AI response when streaming completes
+  // Speak the AI response sentence by sentence while it is still streaming
   useEffect(() => {
-    // Detect when loading transitions from true to false (streaming complete)
-    const streamingJustCompleted = prevIsLoadingRef.current && !isLoading;
-    prevIsLoadingRef.current = isLoading;
-
-    if (streamingJustCompleted && !isMuted && messages.length > 0) {
-      const lastMessage = messages[messages.length - 1];
-
-      // Only speak if it's an assistant message we haven't spoken yet
-      if (
-        lastMessage.role === "assistant" &&
-        lastMessage.content &&
-        messages.length - 1 > lastSpokenIndexRef.current
-      ) {
-        lastSpokenIndexRef.current = messages.length - 1;
-        speak(lastMessage.content);
-      }
+    const lastIndex = messages.length - 1;
+    const lastMessage = messages[lastIndex];
+    if (lastMessage?.role !== "assistant" || lastMessage.interrupted) return;
+    if (lastIndex <= lastSpokenIndexRef.current) return;
+
+    // Only pick up replies as they stream, not ones restored from a saved session
+    let stream = speechStreamRef.current;
+    if (stream?.index !== lastIndex) {
+      if (!isLoading) return;
+      stream = { index: lastIndex, consumed: 0, splitter: createSentenceSplitter() };
+      speechStreamRef.current = stream;
     }
-  }, [isLoading, messages, isMuted, speak]);
+
+    // Test cases attached to a coding problem are for the editor, not for reading out
+    const spokenContent = stripTestSuite(lastMessage.content);
+    const sentences = stream.splitter.push(spokenContent.slice(stream.consumed));
+    stream.consumed = Math.max(stream.consumed, spokenContent.length);
+    if (!isLoading) {
+      const rest = stream.splitter.flush();
+      if (rest) sentences.push(rest);
+      lastSpokenIndexRef.current = lastIndex;
+    }
+
+    // Text that arrives while muted is skipped rather than spoken later
+    if (!isMuted) sentences.forEach((sentence) => enqueue(sentence));
+  }, [isLoading, messages, isMuted, enqueue]);
+
+  // The 3D scene's canvas, drawn into camera recordings
+  const getInterviewerCanvas = useCallback(
+    () => sceneRef.current?.querySelector("canvas") ?? null,
+    []
+  );
+
+  // Stop the interviewer mid-reply: cancel generation and any speech
+  const handleInterrupt = useCallback(() => {
+    stopGenerating();
+    stopSpeaking();
+  }, [stopGenerating, stopSpeaking]);
 
   const handleEndInterview = useCallback(() => {
+    stopGenerating();
     stopSpeaking();
     setCurrentStep("feedback");
-  }, [setCurrentStep, stopSpeaking]);
+  }, [setCurrentStep, stopGenerating, stopSpeaking]);
 
   const handleBackToSetup = useCallback(() => {
+    stopGenerating();
     stopSpeaking();
+    // Leave the saved session as it was rather than overwriting its transcript
+    setSessionId(null);
     clearMessages();
     setCurrentStep("setup");
-  }, [clearMessages, setCurrentStep, stopSpeaking]);
+  }, [clearMessages, setCurrentStep, setSessionId, stopGenerating, stopSpeaking]);
 
   const handleRestartInterview = useCallback(() => {
+    stopGenerating();
     stopSpeaking();
     clearMessages();
+    resetDeliveryStats();
     setScorecard(null);
     setScorecardError(null);
     lastSpokenIndexRef.current = -1;
-    hasStartedRef.current = false;
-    // Small delay to ensure state is cleared before restarting
-    setTimeout(() => {
-      hasStartedRef.current = true;
-      startInterview();
-    }, 100);
+    speechStreamRef.current = null;
+    // Started below once the new session exists, not by the mount effect
+    hasStartedRef.current = true;
+    hasTimedOutRef.current = false;
+    // A restart is a new saved session, so the server restarts the clock too.
+    // The old session keeps its transcript. If it can't be created the first
+    // turn shows the error instead.
+    startSessionClock();
+    createSavedSession()
+      .catch((err) => console.error("Failed to save session:", err))
+      .then(() => startInterview());
   }, [
     clearMessages,
+    resetDeliveryStats,
     startInterview,
     setScorecard,
     setScorecardError,
+    startSessionClock,
+    stopGenerating,
     stopSpeaking,
   ]);
 
+  // Generate the scorecard into the store, noting how the session ended
+  const requestScorecard = useCallback(
+    async (endedBy: SessionTiming["endedBy"]) => {
+      setScorecardLoading(true);
+      setScorecardError(null);
+
+      try {
+        const response = await fetch("/api/scorecard", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            messages,
+            jobDescription,
+            interviewTypes,
+            difficulty,
+            language,
+            provider: aiProvider ?? undefined,
+            model: aiModel ?? undefined,
+            sessionId: sessionId ?? undefined,
+            delivery: getDeliveryMetrics(messages, getDeliveryStats(), language),
+            timing: sessionStartedAt
+              ? {
+                  durationMinutes: duration,
+                  elapsedSeconds: (Date.now() - sessionStartedAt) / 1000,
+                  endedBy,
+                }
+              : undefined,
+          }),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || `HTTP error: ${response.status}`);
+        }
+
+        const scorecardData = await response.json();
+        setScorecard(scorecardData);
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to generate scorecard";
+        setScorecardError(errorMessage);
+      } finally {
+        setScorecardLoading(false);
+      }
+    },
+    [
+      messages,
+      jobDescription,
+      interviewTypes,
+      difficulty,
+      language,
+      duration,
+      sessionStartedAt,
+      sessionId,
+      aiProvider,
+      aiModel,
+      getDeliveryStats,
+      setScorecard,
+      setScorecardLoading,
+      setScorecardError,
+    ]
+  );
+
   const handleFinishInterview = useCallback(async () => {
     stopSpeaking();
 
@@ -164,47 +350,21 @@ export default function InterviewPage() {
     }
 
     setShowScorecardModal(true);
-    setScorecardLoading(true);
-    setScorecardError(null);
+    await requestScorecard("candidate");
+  }, [messages.length, requestScorecard, setScorecardError, stopSpeaking]);
 
-    try {
-      const response = await fetch("/api/scorecard", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          messages,
-          jobDescription,
-          interviewTypes,
-          difficulty,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `HTTP error: ${response.status}`);
-      }
+  // When the time runs out, stop the interviewer and move on to feedback
+  useEffect(() => {
+    if (!isTimeUp || hasTimedOutRef.current) return;
+    hasTimedOutRef.current = true;
 
-      const scorecardData = await response.json();
-      setScorecard(scorecardData);
-    } catch (err) {
-      const errorMessage =
-        err instanceof Error ? err.message : "Failed to generate scorecard";
-      setScorecardError(errorMessage);
-    } finally {
-      setScorecardLoading(false);
+    stopGenerating();
+    stopSpeaking();
+    if (messages.filter((m) => m.role === "user").length > 0) {
+      requestScorecard("timeout");
     }
-  }, [
-    messages,
-    jobDescription,
-    interviewTypes,
-    difficulty,
-    setScorecard,
-    setScorecardLoading,
-    setScorecardError,
-    stopSpeaking,
-  ]);
+    setCurrentStep("feedback");
+  }, [isTimeUp, messages, requestScorecard, setCurrentStep, stopGenerating, stopSpeaking]);
 
   const handleCloseModal = useCallback(() => {
     setShowScorecardModal(false);
@@ -214,10 +374,12 @@ export default function InterviewPage() {
   }, [scorecard, setCurrentStep]);
 
   const handleNewInterview = useCallback(() => {
+    stopGenerating();
     setShowScorecardModal(false);
     resetInterview();
     lastSpokenIndexRef.current = -1;
-  }, [resetInterview]);
+    speechStreamRef.current = null;
+  }, [resetInterview, stopGenerating]);
 
   const toggleMute = useCallback(() => {
     if (!isMuted) {
@@ -236,6 +398,18 @@ export default function InterviewPage() {
   const hasEnoughMessages =
     messages.filter((m) => m.role === "user").length > 0;
 
+  // Avatar animation: thinking until the first token, greeting on the opening turn
+  const lastMessage = messages[messages.length - 1];
+  const avatarState: InterviewerState = isTimeUp
+    ? "ended"
+    : isLoading && !lastMessage?.content
+      ? "thinking"
+      : isSpeaking
+        ? hasEnoughMessages
+          ? "speaking"
+          : "greeting"
+        : "listening";
+
   return (
     <>
       <div className="flex flex-col h-[calc(100vh-140px)] max-h-[800px] bg-card rounded-xl border border-border overflow-hidden shadow-xl">
@@ -260,6 +434,22 @@ export default function InterviewPage() {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {/* Session Countdown */}
+            {isClockRunning && (
+              <div
+                className={`flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium tabular-nums rounded-lg border ${
+                  remainingSeconds <= 60
+                    ? "text-red-400 border-red-500/30 bg-red-500/10"
+                    : phase === "wrap-up"
+                      ? "text-amber-400 border-amber-500/30 bg-amber-500/10"
+                      : "text-muted-foreground border-border"
+                }`}
+                title="Time remaining"
+              >
+                <Clock className="w-3.5 h-3.5" />
+                {formatClock(remainingSeconds)}
+              </div>
+            )}
             {/* Settings Dropdown */}
             {isTTSSupported && (
               <div className="relative">
@@ -314,6 +504,34 @@ export default function InterviewPage() {
                 )}
               </div>
             )}
+            {/* Code Editor Toggle */}
+            {isCodingInterview && (
+              <button
+                onClick={() => setSidePanel(showCodeEditor ? null : "code")}
+                className={`hidden md:block p-2 rounded-lg transition-colors ${
+                  showCodeEditor
+                    ? "text-primary bg-primary/10"
+                    : "text-muted-foreground hover:text-foreground hover:bg-secondary"
+                }`}
+                title={showCodeEditor ? "Hide code editor" : "Show code editor"}
+              >
+                <Code className="w-4 h-4" />
+              </button>
+            )}
+            {/* Whiteboard Toggle */}
+            {isSystemDesignInterview && (
+              <button
+                onClick={() => setSidePanel(showWhiteboard ? null : "whiteboard")}
+                className={`hidden md:block p-2 rounded-lg transition-colors ${
+                  showWhiteboard
+                    ? "text-primary bg-primary/10"
+                    : "text-muted-foreground hover:text-foreground hover:bg-secondary"
+                }`}
+                title={showWhiteboard ? "Hide whiteboard" : "Show whiteboard"}
+              >
+                <PenTool className="w-4 h-4" />
+              </button>
+            )}
             {/* Mute/Unmute TTS Button */}
             {isTTSSupported && (
               <button
@@ -361,8 +579,18 @@ export default function InterviewPage() {
         </div>
 
         {/* 3D Interviewer Scene */}
-        <div className="h-[280px] sm:h-[320px] shrink-0 border-b border-border relative">
-             <InterviewerScene isSpeaking={isSpeaking} />
+        <div
+          ref={sceneRef}
+          className="h-[280px] sm:h-[320px] shrink-0 border-b border-border relative"
+        >
+             <InterviewerScene state={avatarState} lipSync={lipSync} />
+          <MediaControls
+            className="absolute top-3 left-3 z-10"
+            getInterviewerCanvas={getInterviewerCanvas}
+            getInterviewerAudio={captureInterviewerAudio}
+            isInterviewerAudioRecorded={canRecordInterviewer}
+            onMediaStreamChange={setMediaStream}
+          />
           {/* <Canvas camera={{ position: [0, 1.5, 5], fov: 45 }}>
             <ambientLight intensity={0.5} />
             <directionalLight position={[5, 10, 7.5]} intensity={1.2} />
@@ -392,65 +620,105 @@ export default function InterviewPage() {
           )}
         </div>
 
-        {/* Chat Messages */}
-        <div ref={chatContainerRef} className="flex-1 overflow-y-auto">
-          {messages.length === 0 && !isLoading ? (
-            <div className="flex items-center justify-center h-full">
-              <p className="text-muted-foreground text-sm">
-                Starting interview...
-              </p>
-            </div>
-          ) : (
-            <div className="divide-y divide-border/50">
-              {messages.map((message, index) => (
-                <ChatMessage
-                  key={index}
-                  message={message}
-                  isStreaming={
-                    isLastMessageStreaming && index === messages.length - 1
-                  }
-                />
-              ))}
-            </div>
-          )}
-
-          {/* Error Display */}
-          {error && (
-            <div className="p-4 mx-4 my-2 bg-red-500/10 border border-red-500/30 rounded-lg">
-              <div className="flex items-start gap-2">
-                <AlertCircle className="w-4 h-4 text-red-400 mt-0.5 shrink-0" />
-                <div>
-                  <p className="text-sm font-medium text-red-400">
-                    Error sending message
+        {/* Wrap-up Warning */}
+        {isClockRunning && phase === "wrap-up" && (
+          <div className="flex items-center gap-2 px-4 py-2 text-xs text-amber-400 bg-amber-500/10 border-b border-amber-500/30">
+            <Clock className="w-3.5 h-3.5 shrink-0" />
+            Less than {Math.ceil(remainingSeconds / 60)} minute
+            {Math.ceil(remainingSeconds / 60) === 1 ? "" : "s"} left. The
+            interviewer is wrapping up.
+          </div>
+        )}
+
+        {/* Chat with the code editor or whiteboard beside it */}
+        <div className="flex-1 flex min-h-0">
+          <div className="flex-1 flex flex-col min-w-0">
+            {/* Chat Messages */}
+            <div ref={chatContainerRef} className="flex-1 overflow-y-auto">
+              {messages.length === 0 && !isLoading ? (
+                <div className="flex items-center justify-center h-full">
+                  <p className="text-muted-foreground text-sm">
+                    Starting interview...
                   </p>
-                  <p className="text-xs text-red-400/80 mt-1">{error.message}</p>
                 </div>
-              </div>
+              ) : (
+                <div className="divide-y divide-border/50">
+                  {messages.map((message, index) => (
+                    <ChatMessage
+                      key={index}
+                      message={message}
+                      isStreaming={
+                        isLastMessageStreaming && index === messages.length - 1
+                      }
+                      onQuizAnswer={
+                        message.quiz && !message.quizGrade && !isLoading
+                          ? (choice) => answerQuiz(index, choice)
+                          : undefined
+                      }
+                    />
+                  ))}
+                </div>
+              )}
+
+              {/* Error Display */}
+              {error && (
+                <div className="p-4 mx-4 my-2 bg-red-500/10 border border-red-500/30 rounded-lg">
+                  <div className="flex items-start gap-2">
+                    <AlertCircle className="w-4 h-4 text-red-400 mt-0.5 shrink-0" />
+                    <div>
+                      <p className="text-sm font-medium text-red-400">
+                        Error sending message
+                      </p>
+                      <p className="text-xs text-red-400/80 mt-1">{error.message}</p>
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
-          )}
-        </div>
 
-        {/* Mobile Finish Button + Chat Input */}
-        <div className="border-t border-border">
-          {/* Mobile Finish Button */}
-          <div className="sm:hidden px-4 pt-3">
-            <button
-              onClick={handleFinishInterview}
-              disabled={!hasEnoughMessages || isLoading || isSpeaking}
-              className="w-full flex items-center justify-center gap-2 px-4 py-2.5 text-sm font-medium bg-primary hover:bg-primary/90 disabled:bg-primary/50 disabled:cursor-not-allowed text-primary-foreground rounded-lg transition-colors"
-            >
-              <CheckCircle className="w-4 h-4" />
-              Finish Interview & Get Scorecard
-            </button>
+            {/* Mobile Finish Button + Chat Input */}
+            <div className="border-t border-border">
+              {/* Mobile Finish Button */}
+              <div className="sm:hidden px-4 pt-3">
+                <button
+                  onClick={handleFinishInterview}
+                  disabled={!hasEnoughMessages || isLoading || isSpeaking}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2.5 text-sm font-medium bg-primary hover:bg-primary/90 disabled:bg-primary/50 disabled:cursor-not-allowed text-primary-foreground rounded-lg transition-colors"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  Finish Interview & Get Scorecard
+                </button>
+              </div>
+
+              {/* User Response Input */}
+              <UserResponseInput
+                onSubmit={handleAnswer}
+                onInterrupt={handleInterrupt}
+                isAiThinking={isLoading}
+                isAiSpeaking={isSpeaking}
+                placeholder="Type your answer to the interviewer..."
+                language={language}
+              />
+            </div>
           </div>
 
-          {/* User Response Input */}
-          <UserResponseInput
-            onSubmit={sendMessage}
-            isAiThinking={isLoading}
-            isAiSpeaking={isSpeaking}
-            placeholder="Type your answer to the interviewer..."
-          />
+          {/* Code Editor */}
+          {showCodeEditor && (
+            <div className="hidden md:block md:w-1/2 border-l border-border">
+              <CodeEditor
+                onSubmit={sendCode}
+                disabled={isLoading || isSpeaking}
+                tests={testSuite}
+              />
+            </div>
+          )}
+
+          {/* Whiteboard */}
+          {showWhiteboard && (
+            <div className="hidden md:block md:w-1/2 border-l border-border">
+              <Whiteboard />
+            </div>
+          )}
         </div>
       </div>
 
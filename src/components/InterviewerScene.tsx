@@ -1,6 +1,7 @@
 "use client";
 
-import { useRef, useMemo } from "react";
+import { Component, Suspense, useEffect, useRef, useMemo, useState } from "react";
+import type { ReactNode } from "react";
 import { Canvas, useFrame } from "@react-three/fiber";
 import {
   Environment,
@@ -9,14 +10,197 @@ import {
   Sphere,
   Ring,
   ContactShadows,
+  useAnimations,
+  useGLTF,
 } from "@react-three/drei";
 import * as THREE from "three";
+import { visemeOpenness } from "@/lib/visemes";
+import type { LipSync, Viseme } from "@/lib/visemes";
+
+export type InterviewerState =
+  | "greeting"
+  | "listening"
+  | "speaking"
+  | "thinking"
+  | "ended";
+
+const ROBOT_MODEL_URL = "/models/RobotExpressive.glb";
+
+// Animation clip for each interviewer state. One-shot clips hand over to
+// `then` once they have played through.
+const stateClips: Record<
+  InterviewerState,
+  { clip: string; once?: boolean; then?: string; timeScale?: number }
+> = {
+  greeting: { clip: "Wave", once: true, then: "Yes" },
+  listening: { clip: "Idle" },
+  speaking: { clip: "Yes" },
+  thinking: { clip: "No", timeScale: 0.5 },
+  ended: { clip: "ThumbsUp", once: true, then: "Idle" },
+};
+
+const stateLabels: Record<InterviewerState, string> = {
+  greeting: "AI Speaking...",
+  listening: "Listening",
+  speaking: "AI Speaking...",
+  thinking: "Thinking...",
+  ended: "Interview Complete",
+};
+
+const CROSSFADE_SECONDS = 0.3;
+
+// Morph targets that open the mouth, for models without per-viseme targets.
+// RobotExpressive only has "Surprised", which drops the jaw.
+const MOUTH_OPEN_TARGETS = ["mouthOpen", "jawOpen", "viseme_aa", "Surprised"];
+const MOUTH_OPEN_SCALE = 0.7;
+const MOUTH_SMOOTHING = 18;
+
+// Mouth openness while talking: follows the lip sync timeline when boundary
+// events arrive, otherwise a generic flap
+function getMouthTarget(isTalking: boolean, time: number, lipSync?: LipSync) {
+  if (!isTalking) return { open: 0, viseme: null };
+  const shape = lipSync?.sample();
+  if (shape) return shape;
+  return { open: ((Math.sin(time * 12) + 1) / 2) * 0.6, viseme: null };
+}
+
+interface MouthMorphs {
+  mesh: THREE.Mesh;
+  open?: number;
+  visemes: [Viseme, number][];
+}
+
+// Per-viseme targets get the current viseme, otherwise the jaw just opens
+function applyMouthShape(
+  morphs: MouthMorphs[],
+  viseme: Viseme | null,
+  openness: number,
+  delta: number
+) {
+  for (const { mesh, open, visemes } of morphs) {
+    const influences = mesh.morphTargetInfluences;
+    if (!influences) continue;
+
+    if (visemes.length > 0) {
+      for (const [name, index] of visemes) {
+        const weight = name === viseme ? 1 : 0;
+        influences[index] = THREE.MathUtils.damp(influences[index], weight, MOUTH_SMOOTHING, delta);
+      }
+    } else if (open !== undefined) {
+      influences[open] = openness * MOUTH_OPEN_SCALE;
+    }
+  }
+}
+
+function RobotAvatar({
+  state,
+  lipSync,
+}: {
+  state: InterviewerState;
+  lipSync?: LipSync;
+}) {
+  const groupRef = useRef<THREE.Group>(null);
+  const mouthOpenRef = useRef(0);
+  const { scene, animations } = useGLTF(ROBOT_MODEL_URL);
+  const { actions } = useAnimations(animations, groupRef);
+  const isTalking = state === "greeting" || state === "speaking";
+
+  // Find the morph targets that can move the mouth
+  const mouthMorphs = useMemo(() => {
+    const morphs: MouthMorphs[] = [];
+    scene.traverse((object) => {
+      const mesh = object as THREE.Mesh;
+      const dictionary = mesh.morphTargetDictionary;
+      if (!dictionary) return;
+
+      const visemes = (Object.keys(visemeOpenness) as Viseme[])
+        .filter((v) => dictionary[`viseme_${v}`] !== undefined)
+        .map((v): [Viseme, number] => [v, dictionary[`viseme_${v}`]]);
+      const openName = MOUTH_OPEN_TARGETS.find((name) => dictionary[name] !== undefined);
+      const open = openName ? dictionary[openName] : undefined;
+
+      if (visemes.length > 0 || open !== undefined) {
+        morphs.push({ mesh, open, visemes });
+      }
+    });
+    return morphs;
+  }, [scene]);
+
+  useFrame((frameState, delta) => {
+    const target = getMouthTarget(isTalking, frameState.clock.getElapsedTime(), lipSync);
+    mouthOpenRef.current = THREE.MathUtils.damp(
+      mouthOpenRef.current,
+      target.open,
+      MOUTH_SMOOTHING,
+      delta
+    );
+
+    applyMouthShape(mouthMorphs, target.viseme, mouthOpenRef.current, delta);
+  });
+
+  useEffect(() => {
+    const { clip, once, then, timeScale = 1 } = stateClips[state];
+    const action = actions[clip];
+    if (!action) return;
+
+    action.reset().setEffectiveTimeScale(timeScale).fadeIn(CROSSFADE_SECONDS).play();
+
+    // Blend a one-shot clip into its follow-up just before it would loop
+    let current = action;
+    const next = once && then ? actions[then] : null;
+    const timeout = next
+      ? setTimeout(() => {
+          next.reset().play();
+          action.crossFadeTo(next, CROSSFADE_SECONDS, false);
+          current = next;
+        }, (action.getClip().duration / timeScale - CROSSFADE_SECONDS) * 1000)
+      : undefined;
+
+    return () => {
+      clearTimeout(timeout);
+      current.fadeOut(CROSSFADE_SECONDS);
+      if (current !== action) action.fadeOut(CROSSFADE_SECONDS);
+    };
+  }, [state, actions]);
+
+  return (
+    <group ref={groupRef} position={[0, -2, 0]} scale={0.7}>
+      <primitive object={scene} />
+    </group>
+  );
+}
+
+useGLTF.preload(ROBOT_MODEL_URL);
+
+// Falls back to the sphere if the model fails to load
+class ModelErrorBoundary extends Component<
+  { fallback: ReactNode; children: ReactNode },
+  { hasError: boolean }
+> {
+  state = { hasError: false };
+
+  static getDerivedStateFromError() {
+    return { hasError: true };
+  }
+
+  render() {
+    return this.state.hasError ? this.props.fallback : this.props.children;
+  }
+}
+
+// Skip the skinned model on weak devices
+function detectLowPower() {
+  if (typeof navigator === "undefined") return false;
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  return (navigator.hardwareConcurrency ?? 4) <= 2 || (memory !== undefined && memory <= 2);
+}
 
 interface InterviewerAvatarProps {
   isSpeaking: boolean;
+  lipSync?: LipSync;
 }
 
-function InterviewerAvatar({ isSpeaking }: InterviewerAvatarProps) {
+function InterviewerAvatar({ isSpeaking, lipSync }: InterviewerAvatarProps) {
   const mainSphereRef = useRef<THREE.Mesh>(null);
   const innerSphereRef = useRef<THREE.Mesh>(null);
   const ring1Ref = useRef<THREE.Mesh>(null);
@@ -35,7 +219,10 @@ function InterviewerAvatar({ isSpeaking }: InterviewerAvatarProps) {
     }
 
     const pulse = pulseRef.current;
-    const speakingScale = 1 + Math.sin(time * 8) * 0.05 * pulse;
+    const mouth = lipSync?.sample();
+    const speakingScale = mouth
+      ? 1 + mouth.open * 0.08 * pulse
+      : 1 + Math.sin(time * 8) * 0.05 * pulse;
 
     // Main sphere breathing and speaking animation
     if (mainSphereRef.current) {
@@ -224,13 +411,27 @@ function StudioLighting() {
 
 interface InterviewerSceneProps {
   isSpeaking?: boolean;
+  // Overrides isSpeaking when set
+  state?: InterviewerState;
+  // Draw the abstract sphere instead of the robot; detected when omitted
+  lowPower?: boolean;
+  // Word timing from speech synthesis, used to move the mouth
+  lipSync?: LipSync;
   className?: string;
 }
 
 export default function InterviewerScene({
   isSpeaking = false,
+  state,
+  lowPower,
+  lipSync,
   className = "",
 }: InterviewerSceneProps) {
+  const [isLowPowerDevice] = useState(detectLowPower);
+  const avatarState = state ?? (isSpeaking ? "speaking" : "listening");
+  const isActive = avatarState === "greeting" || avatarState === "speaking";
+  const sphere = <InterviewerAvatar isSpeaking={isActive} lipSync={lipSync} />;
+
   return (
     <div
       className={`relative w-full h-full min-h-[300px] bg-gradient-to-b from-[#0a0a0f] to-[#111118] rounded-xl overflow-hidden ${className}`}
@@ -238,13 +439,21 @@ export default function InterviewerScene({
       <Canvas
         camera={{ position: [0, 0, 5], fov: 45 }}
         dpr={[1, 2]}
-        gl={{ antialias: true, alpha: true }}
+        gl={{ antialias: true, alpha: true, preserveDrawingBuffer: true }}
       >
         <color attach="background" args={["#0a0a0f"]} />
 
         <StudioLighting />
 
-        <InterviewerAvatar isSpeaking={isSpeaking} />
+        {lowPower ?? isLowPowerDevice ? (
+          sphere
+        ) : (
+          <ModelErrorBoundary fallback={sphere}>
+            <Suspense fallback={sphere}>
+              <RobotAvatar state={avatarState} lipSync={lipSync} />
+            </Suspense>
+          </ModelErrorBoundary>
+        )}
 
         <ContactShadows
           position={[0, -2, 0]}
@@ -262,11 +471,15 @@ export default function InterviewerScene({
       <div className="absolute bottom-4 left-4 flex items-center gap-2">
         <div
           className={`w-2 h-2 rounded-full transition-colors duration-300 ${
-            isSpeaking ? "bg-green-500 animate-pulse" : "bg-muted-foreground"
+            isActive
+              ? "bg-green-500 animate-pulse"
+              : avatarState === "thinking"
+                ? "bg-amber-500 animate-pulse"
+                : "bg-muted-foreground"
           }`}
         />
         <span className="text-xs text-muted-foreground">
-          {isSpeaking ? "AI Speaking..." : "Listening"}
+          {stateLabels[avatarState]}
         </span>
       </div>
     </div>
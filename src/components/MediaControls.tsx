@@ -13,18 +13,42 @@ import {
   Eye,
   EyeOff,
   User,
+  Circle,
+  Square,
+  Download,
+  X,
 } from "lucide-react";
 import { useMediaControls } from "@/hooks/useMediaControls";
+import type { RecordingMode } from "@/hooks/useMediaControls";
 import { useInterviewStore } from "@/store/useInterviewStore";
+import { formatClock } from "@/lib/sessionClock";
 
 interface MediaControlsProps {
   className?: string;
   showPreview?: boolean;
+  // Needed for recordings that include the interviewer
+  getInterviewerCanvas?: () => HTMLCanvasElement | null;
+  getInterviewerAudio?: () => MediaStream | null;
+  // False when getInterviewerAudio has nothing to give, e.g. with the browser's voice
+  isInterviewerAudioRecorded?: boolean;
+  onRecordingComplete?: (blob: Blob, url: string) => void;
+  // Shares the camera and mic stream, e.g. for delivery analytics
+  onMediaStreamChange?: (stream: MediaStream | null) => void;
 }
 
+const recordingModeLabels: Record<RecordingMode, string> = {
+  camera: "Camera + Interviewer",
+  screen: "Screen",
+};
+
 export default function MediaControls({
   className = "",
   showPreview = true,
+  getInterviewerCanvas,
+  getInterviewerAudio,
+  isInterviewerAudioRecorded = true,
+  onRecordingComplete,
+  onMediaStreamChange,
 }: MediaControlsProps) {
   const { interviewTypes } = useInterviewStore();
 
@@ -36,21 +60,36 @@ export default function MediaControls({
     isScreenSharing,
     isInitialized,
     isInitializing,
+    isRecording,
+    recordingMode,
+    recordingDuration,
+    recordingUrl,
     error,
     initializeMedia,
     toggleVideo,
     toggleAudio,
     startScreenCapture,
     stopScreenCapture,
+    startRecording,
+    stopRecording,
+    downloadRecording,
+    clearRecording,
     stopAllMedia,
   } = useMediaControls({
     onError: (err) => console.error("Media error:", err),
+    getInterviewerCanvas,
+    getInterviewerAudio,
+    onRecordingComplete,
   });
 
   // Local state
   const [isVoiceOnlyMode, setIsVoiceOnlyMode] = useState(false);
   const [isPreviewMinimized, setIsPreviewMinimized] = useState(false);
   const [isPreviewHidden, setIsPreviewHidden] = useState(false);
+  const [selectedRecordingMode, setSelectedRecordingMode] = useState<RecordingMode>("camera");
+  // Screen recording needs an active share
+  const nextRecordingMode: RecordingMode =
+    selectedRecordingMode === "screen" && isScreenSharing ? "screen" : "camera";
 
   // Video preview refs
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -66,6 +105,10 @@ export default function MediaControls({
     }
   }, [mediaStream]);
 
+  useEffect(() => {
+    onMediaStreamChange?.(mediaStream);
+  }, [mediaStream, onMediaStreamChange]);
+
   // Update screen preview when screen stream changes
   useEffect(() => {
     if (screenVideoRef.current && screenStream) {
@@ -198,6 +241,63 @@ export default function MediaControls({
               </button>
             )}
 
+            {/* Recording */}
+            {isRecording ? (
+              <button
+                onClick={stopRecording}
+                className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium bg-red-500/20 text-red-400 hover:bg-red-500/30 transition-colors"
+                title={`Stop recording (${recordingMode ? recordingModeLabels[recordingMode] : ""})`}
+              >
+                <Square className="w-3.5 h-3.5 fill-current" />
+                <span className="tabular-nums">{formatClock(recordingDuration)}</span>
+              </button>
+            ) : (
+              <div className="flex items-center rounded-lg bg-secondary">
+                <button
+                  onClick={() => startRecording(nextRecordingMode)}
+                  className="flex items-center gap-1.5 pl-3 pr-2 py-2 rounded-l-lg text-sm font-medium text-foreground hover:bg-secondary/80 transition-colors"
+                  title={`Record ${recordingModeLabels[nextRecordingMode]}`}
+                >
+                  <Circle className="w-3.5 h-3.5 text-red-400 fill-current" />
+                  <span className="hidden sm:inline">Record</span>
+                </button>
+                {isScreenSharing && (
+                  <select
+                    value={nextRecordingMode}
+                    onChange={(e) => setSelectedRecordingMode(e.target.value as RecordingMode)}
+                    className="bg-transparent border-l border-border px-1.5 py-2 text-xs text-foreground focus:outline-none"
+                    title="What to record"
+                  >
+                    {(Object.keys(recordingModeLabels) as RecordingMode[]).map((mode) => (
+                      <option key={mode} value={mode}>
+                        {recordingModeLabels[mode]}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
+
+            {/* Finished Recording */}
+            {recordingUrl && !isRecording && (
+              <>
+                <button
+                  onClick={downloadRecording}
+                  className="p-2.5 rounded-lg bg-secondary hover:bg-secondary/80 text-foreground transition-colors"
+                  title="Download recording"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={clearRecording}
+                  className="p-2.5 rounded-lg bg-secondary hover:bg-secondary/80 text-muted-foreground hover:text-foreground transition-colors"
+                  title="Discard recording"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </>
+            )}
+
             {/* Stop All Media */}
             <button
               onClick={stopAllMedia}
@@ -240,6 +340,16 @@ export default function MediaControls({
         )}
       </div>
 
+      {/* Said before recording, since it can't be fixed afterwards */}
+      {isInitialized && !isRecording && !isInterviewerAudioRecorded && (
+        <div className="px-3 py-2 bg-amber-500/10 border border-amber-500/30 rounded-lg">
+          <p className="text-xs text-amber-400">
+            Recordings won&apos;t include the interviewer&apos;s voice: the browser&apos;s
+            built-in voice can&apos;t be captured. Set up a server voice (PIPER_URL) to record it.
+          </p>
+        </div>
+      )}
+
       {/* Error Display */}
       {error && (
         <div className="px-3 py-2 bg-red-500/10 border border-red-500/30 rounded-lg">
@@ -347,6 +457,7 @@ export default function MediaControls({
               ? "Mic only"
               : "Media paused"}
             {isScreenSharing && " • Sharing screen"}
+            {isRecording && " • Recording"}
           </span>
         </div>
       )}
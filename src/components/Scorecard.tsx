@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import {
   Trophy,
   Target,
@@ -8,18 +9,43 @@ import {
   CheckCircle,
   AlertCircle,
   Loader2,
+  Clock,
+  FlaskConical,
+  ListChecks,
+  AudioLines,
+  ChevronDown,
+  HelpCircle,
+  ScrollText,
   type LucideIcon,
 } from "lucide-react";
-import type { ScorecardResponse } from "@/app/api/scorecard/route";
+import type {
+  QuestionFeedback,
+  ScorecardResponse,
+  TestSummary,
+} from "@/app/api/scorecard/route";
+import type { DeliveryMetrics } from "@/types/delivery";
+import { getScoreDimensions } from "@/lib/rubrics";
 
 interface ScorecardProps {
   scorecard: ScorecardResponse | null;
   isLoading: boolean;
   error: string | null;
-  onClose: () => void;
+  onClose?: () => void;
   onNewInterview: () => void;
+  // Opens the transcript at a message; links are hidden without it
+  onViewMessage?: (messageIndex: number) => void;
 }
 
+// Rubric dimensions without an icon of their own use Target
+const dimensionIcons: Record<string, LucideIcon> = {
+  communication: MessageSquare,
+  correctness: FlaskConical,
+  "technical-knowledge": ListChecks,
+};
+
+const getScoreTextColor = (score: number) =>
+  score >= 8 ? "text-green-400" : score >= 6 ? "text-yellow-400" : "text-red-400";
+
 function ScoreCircle({
   score,
   label,
@@ -55,6 +81,160 @@ function ScoreCircle({
   );
 }
 
+// Measured delivery tiles; metrics that couldn't be measured are left out
+function DeliveryStats({ delivery }: { delivery: DeliveryMetrics }) {
+  const stats: { label: string; value: string; detail?: string }[] = [];
+  if (delivery.wordsPerMinute !== null) {
+    stats.push({ label: "Speaking rate", value: `${delivery.wordsPerMinute} wpm` });
+  }
+  if (delivery.talkRatio !== null) {
+    stats.push({
+      label: "You talked",
+      value: `${Math.round(delivery.talkRatio * 100)}%`,
+      detail: "of the conversation",
+    });
+  }
+  if (delivery.averagePauseSeconds !== null) {
+    stats.push({
+      label: "Average pause",
+      value: `${delivery.averagePauseSeconds}s`,
+      detail: `${delivery.longPauses} long, longest ${delivery.longestPauseSeconds}s`,
+    });
+  }
+  if (delivery.fillersPer100Words !== null) {
+    stats.push({
+      label: "Filler words",
+      value: `${delivery.fillersPer100Words} / 100 words`,
+      detail: delivery.fillerWords
+        .slice(0, 3)
+        .map((f) => `"${f.word}" ×${f.count}`)
+        .join(", "),
+    });
+  }
+  if (delivery.volumeVariationDb !== null) {
+    const steadiness =
+      delivery.volumeVariationDb < 4 ? "Steady" : delivery.volumeVariationDb <= 8 ? "Varied" : "Uneven";
+    stats.push({
+      label: "Volume",
+      value: steadiness,
+      detail: `±${delivery.volumeVariationDb} dB`,
+    });
+  }
+  if (stats.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide flex items-center gap-1">
+        <AudioLines className="w-3 h-3" />
+        Measured Delivery
+      </h4>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        {stats.map((stat) => (
+          <div key={stat.label} className="bg-secondary/50 rounded-md px-3 py-2">
+            <div className="text-xs text-muted-foreground">{stat.label}</div>
+            <div className="text-sm font-medium text-foreground">{stat.value}</div>
+            {stat.detail && <div className="text-xs text-muted-foreground">{stat.detail}</div>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function QuestionBreakdown({
+  questions,
+  onViewMessage,
+}: {
+  questions: QuestionFeedback[];
+  onViewMessage?: (messageIndex: number) => void;
+}) {
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  return (
+    <div className="bg-secondary/30 rounded-lg p-4 space-y-3">
+      <h3 className="font-semibold text-foreground flex items-center gap-2">
+        <HelpCircle className="w-5 h-5 text-primary" />
+        Question Breakdown
+      </h3>
+      <ul className="divide-y divide-border">
+        {questions.map((q, i) => {
+          const isExpanded = expanded === i;
+          return (
+            <li key={i} className="py-2">
+              <button
+                type="button"
+                onClick={() => setExpanded(isExpanded ? null : i)}
+                aria-expanded={isExpanded}
+                className="w-full flex items-center gap-3 text-left"
+              >
+                <span className={`w-8 shrink-0 text-sm font-semibold ${getScoreTextColor(q.score)}`}>
+                  {q.score}/10
+                </span>
+                <span className={`flex-1 text-sm text-foreground/80 ${isExpanded ? "" : "truncate"}`}>
+                  {q.question}
+                </span>
+                <ChevronDown
+                  className={`w-4 h-4 shrink-0 text-muted-foreground transition-transform ${
+                    isExpanded ? "rotate-180" : ""
+                  }`}
+                />
+              </button>
+
+              {isExpanded && (
+                <div className="mt-3 ml-11 space-y-3 text-sm">
+                  {q.answerSummary && (
+                    <div>
+                      <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+                        Your Answer
+                      </h4>
+                      <p className="text-foreground/80">{q.answerSummary}</p>
+                    </div>
+                  )}
+                  {q.strongAnswer.length > 0 && (
+                    <div>
+                      <h4 className="text-xs font-medium text-green-400 uppercase tracking-wide mb-1">
+                        A Strong Answer Includes
+                      </h4>
+                      <ul className="space-y-1">
+                        {q.strongAnswer.map((point, j) => (
+                          <li key={j} className="text-foreground/80 flex items-start gap-2">
+                            <span className="text-green-400 mt-1">•</span>
+                            {point}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {q.modelAnswer && (
+                    <div>
+                      <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">
+                        Model Answer
+                      </h4>
+                      <p className="text-foreground/80 bg-secondary/50 rounded-md p-3 italic">
+                        {q.modelAnswer}
+                      </p>
+                    </div>
+                  )}
+                  {onViewMessage && (
+                    <button
+                      type="button"
+                      onClick={() => onViewMessage(q.messageIndex)}
+                      className="flex items-center gap-1.5 text-xs font-medium text-primary hover:underline"
+                    >
+                      <ScrollText className="w-3.5 h-3.5" />
+                      View in transcript
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
 function ScoreSection({
   title,
   icon: Icon,
@@ -62,6 +242,8 @@ function ScoreSection({
   feedback,
   strengths,
   improvements,
+  tests,
+  delivery,
 }: {
   title: string;
   icon: LucideIcon;
@@ -69,6 +251,8 @@ function ScoreSection({
   feedback: string;
   strengths: string[];
   improvements: string[];
+  tests?: TestSummary;
+  delivery?: DeliveryMetrics;
 }) {
   return (
     <div className="bg-secondary/30 rounded-lg p-4 space-y-4">
@@ -82,6 +266,16 @@ function ScoreSection({
 
       <p className="text-sm text-muted-foreground">{feedback}</p>
 
+      {tests && (
+        <p className="flex items-center gap-2 text-sm text-foreground/80">
+          <FlaskConical className="w-4 h-4 text-primary" />
+          Automated tests: {tests.passed}/{tests.total} passed across {tests.problems}{" "}
+          {tests.problems === 1 ? "problem" : "problems"}
+        </p>
+      )}
+
+      {delivery && <DeliveryStats delivery={delivery} />}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* Strengths */}
         {strengths.length > 0 && (
@@ -135,6 +329,7 @@ export default function Scorecard({
   error,
   onClose,
   onNewInterview,
+  onViewMessage,
 }: ScorecardProps) {
   if (isLoading) {
     return (
@@ -163,12 +358,14 @@ export default function Scorecard({
           <p className="text-sm text-red-400 mt-1">{error}</p>
         </div>
         <div className="flex gap-3 mt-4">
-          <button
-            onClick={onClose}
-            className="px-4 py-2 text-sm font-medium bg-secondary text-foreground rounded-lg hover:bg-secondary/80 transition-colors"
-          >
-            Close
-          </button>
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium bg-secondary text-foreground rounded-lg hover:bg-secondary/80 transition-colors"
+            >
+              Close
+            </button>
+          )}
           <button
             onClick={onNewInterview}
             className="px-4 py-2 text-sm font-medium bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
@@ -184,6 +381,8 @@ export default function Scorecard({
     return null;
   }
 
+  const dimensions = getScoreDimensions(scorecard);
+
   return (
     <div className="space-y-6">
       {/* Header with Overall Score */}
@@ -199,6 +398,18 @@ export default function Scorecard({
           label="Overall Score"
           size="lg"
         />
+        {dimensions.length > 2 && (
+          <div className="flex flex-wrap justify-center gap-4">
+            {dimensions.map((dimension) => (
+              <ScoreCircle
+                key={dimension.id}
+                score={dimension.score}
+                label={dimension.label}
+                size="sm"
+              />
+            ))}
+          </div>
+        )}
         <p className="text-sm text-muted-foreground max-w-md mx-auto">
           {scorecard.summary}
         </p>
@@ -206,25 +417,76 @@ export default function Scorecard({
 
       {/* Score Sections */}
       <div className="space-y-4">
-        <ScoreSection
-          title="Technical Accuracy"
-          icon={Target}
-          score={scorecard.technicalAccuracy.score}
-          feedback={scorecard.technicalAccuracy.feedback}
-          strengths={scorecard.technicalAccuracy.strengths}
-          improvements={scorecard.technicalAccuracy.improvements}
-        />
-
-        <ScoreSection
-          title="Communication Skills"
-          icon={MessageSquare}
-          score={scorecard.communicationSkills.score}
-          feedback={scorecard.communicationSkills.feedback}
-          strengths={scorecard.communicationSkills.strengths}
-          improvements={scorecard.communicationSkills.improvements}
-        />
+        {dimensions.map((dimension) => (
+          <ScoreSection
+            key={dimension.id}
+            title={dimension.label}
+            icon={dimensionIcons[dimension.id] ?? Target}
+            score={dimension.score}
+            feedback={dimension.feedback}
+            strengths={dimension.strengths}
+            improvements={dimension.improvements}
+            tests={dimension.tests}
+            delivery={dimension.delivery}
+          />
+        ))}
       </div>
 
+      {/* Question Breakdown */}
+      {scorecard.questions && scorecard.questions.length > 0 && (
+        <QuestionBreakdown questions={scorecard.questions} onViewMessage={onViewMessage} />
+      )}
+
+      {/* Quiz Results */}
+      {scorecard.quizResults && scorecard.quizResults.length > 0 && (
+        <div className="bg-secondary/30 rounded-lg p-4 space-y-3">
+          <h3 className="font-semibold text-foreground flex items-center gap-2">
+            <ListChecks className="w-5 h-5 text-primary" />
+            Quiz Results
+          </h3>
+          <ul className="space-y-2">
+            {scorecard.quizResults.map((result) => (
+              <li key={result.topic} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-foreground/80">{result.topic}</span>
+                  <span className="text-muted-foreground">
+                    {result.correct}/{result.total}
+                  </span>
+                </div>
+                <div className="h-1.5 rounded-full bg-secondary overflow-hidden">
+                  <div
+                    className="h-full bg-primary"
+                    style={{ width: `${(result.correct / result.total) * 100}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Time Management */}
+      {scorecard.timeUsage && (
+        <div className="bg-secondary/30 rounded-lg p-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-foreground flex items-center gap-2">
+              <Clock className="w-5 h-5 text-primary" />
+              Time Management
+            </h3>
+            <span className="text-sm text-muted-foreground">
+              {scorecard.timeUsage.usedMinutes} of{" "}
+              {scorecard.timeUsage.allottedMinutes} min
+              {scorecard.timeUsage.endedBy === "timeout" && " (time ran out)"}
+            </span>
+          </div>
+          {scorecard.timeUsage.feedback && (
+            <p className="text-sm text-foreground/80">
+              {scorecard.timeUsage.feedback}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Key Areas for Improvement */}
       {scorecard.keyAreasForImprovement.length > 0 && (
         <div className="bg-accent/10 border border-accent/20 rounded-lg p-4 space-y-3">
@@ -250,12 +512,14 @@ export default function Scorecard({
 
       {/* Action Buttons */}
       <div className="flex flex-col sm:flex-row gap-3 pt-4 border-t border-border">
-        <button
-          onClick={onClose}
-          className="flex-1 px-4 py-3 text-sm font-medium bg-secondary text-foreground rounded-lg hover:bg-secondary/80 transition-colors border border-border"
-        >
-          View Feedback Details
-        </button>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-3 text-sm font-medium bg-secondary text-foreground rounded-lg hover:bg-secondary/80 transition-colors border border-border"
+          >
+            View Feedback Details
+          </button>
+        )}
         <button
           onClick={onNewInterview}
           className="flex-1 px-4 py-3 text-sm font-medium bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
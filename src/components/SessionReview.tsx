@@ -0,0 +1,250 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ArrowLeft, Code2, FileVideo, Play, ThumbsUp, TrendingUp } from "lucide-react";
+import { useInterviewStore } from "@/store/useInterviewStore";
+import type { Message } from "@/store/useInterviewStore";
+import type { ScorecardMoment } from "@/app/api/scorecard/route";
+import { formatClock } from "@/lib/sessionClock";
+import { stripTestSuite } from "@/lib/testCases";
+
+interface SessionReviewProps {
+  onBack: () => void;
+  // Message to scroll to and cue the video at, e.g. from the question breakdown
+  focusMessageIndex?: number | null;
+}
+
+const MAX_PREVIEW_LENGTH = 280;
+
+function getPreview(message: Message): string {
+  if (message.code) return `Submitted ${message.code.language} code`;
+  const text = stripTestSuite(message.content).trim();
+  return text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH - 1)}…` : text;
+}
+
+function MomentNote({ moment, onSeek }: { moment: ScorecardMoment; onSeek?: () => void }) {
+  const isStrength = moment.kind === "strength";
+  const Icon = isStrength ? ThumbsUp : TrendingUp;
+  return (
+    <button
+      type="button"
+      onClick={onSeek}
+      disabled={!onSeek}
+      className={`flex items-start gap-2 w-full text-left text-xs rounded-md px-2 py-1.5 border transition-colors disabled:cursor-default ${
+        isStrength
+          ? "border-green-400/30 bg-green-400/10 text-green-300 enabled:hover:bg-green-400/20"
+          : "border-yellow-400/30 bg-yellow-400/10 text-yellow-300 enabled:hover:bg-yellow-400/20"
+      }`}
+    >
+      <Icon className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+      <span>{moment.comment}</span>
+    </button>
+  );
+}
+
+// Plays the session recording next to the transcript. Messages and scorecard
+// moments seek the video to when they happened. Without a recording only the
+// transcript is shown.
+export default function SessionReview({ onBack, focusMessageIndex = null }: SessionReviewProps) {
+  const { messages, recording, scorecard } = useInterviewStore();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const transcriptRef = useRef<HTMLDivElement>(null);
+  const [openedFile, setOpenedFile] = useState<File | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [mediaDuration, setMediaDuration] = useState<number | null>(null);
+
+  // A downloaded recording can be opened when this tab no longer has it
+  const source = openedFile ?? recording?.blob ?? null;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !source) return;
+    const url = URL.createObjectURL(source);
+    video.src = url;
+    return () => {
+      video.removeAttribute("src");
+      URL.revokeObjectURL(url);
+    };
+  }, [source]);
+
+  useEffect(() => {
+    if (focusMessageIndex === null) return;
+    transcriptRef.current
+      ?.querySelector(`[data-message-index="${focusMessageIndex}"]`)
+      ?.scrollIntoView({ block: "center" });
+  }, [focusMessageIndex]);
+
+  const offsets = messages.flatMap((m) => (m.recordingOffset !== undefined ? [m.recordingOffset] : []));
+  const wasRecorded = source !== null || offsets.length > 0;
+  const focusOffset =
+    focusMessageIndex !== null ? messages[focusMessageIndex]?.recordingOffset : undefined;
+  // Recorded WebM often reports an infinite duration until fully played
+  const duration =
+    mediaDuration ??
+    (!openedFile && recording ? recording.durationSeconds : Math.max(0, ...offsets));
+
+  const activeIndex = messages.findLastIndex(
+    (m) => m.recordingOffset !== undefined && m.recordingOffset <= currentTime
+  );
+
+  const moments = (scorecard?.moments ?? []).filter((m) => messages[m.messageIndex]);
+  const momentsByMessage = new Map<number, ScorecardMoment[]>();
+  for (const moment of moments) {
+    momentsByMessage.set(moment.messageIndex, [
+      ...(momentsByMessage.get(moment.messageIndex) ?? []),
+      moment,
+    ]);
+  }
+
+  const seek = (seconds: number) => {
+    const video = videoRef.current;
+    if (!video || !source) return;
+    video.currentTime = seconds;
+    video.play().catch(() => {});
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to feedback
+        </button>
+        <span className="text-sm font-medium">Session Review</span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+        {/* Recording */}
+        {wasRecorded && (
+          <div className="lg:col-span-3 bg-card rounded-xl border border-border shadow-lg overflow-hidden">
+            <div className="relative bg-black aspect-video">
+              <video
+                ref={videoRef}
+                controls
+                playsInline
+                className={`w-full h-full ${source ? "" : "hidden"}`}
+                onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                onLoadedMetadata={(e) => {
+                  const seconds = e.currentTarget.duration;
+                  setMediaDuration(Number.isFinite(seconds) ? seconds : null);
+                  if (focusOffset !== undefined) e.currentTarget.currentTime = focusOffset;
+                }}
+              />
+              {!source && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 text-center p-6">
+                  <FileVideo className="w-8 h-8 text-muted-foreground" />
+                  <p className="text-sm text-muted-foreground">
+                    The recording isn&apos;t available in this tab. Open the file you downloaded to
+                    review it.
+                  </p>
+                  <label className="cursor-pointer px-3 py-2 bg-primary hover:bg-primary/90 text-primary-foreground text-sm font-medium rounded-lg transition-colors">
+                    Open recording
+                    <input
+                      type="file"
+                      accept="video/*"
+                      className="hidden"
+                      onChange={(e) => setOpenedFile(e.target.files?.[0] ?? null)}
+                    />
+                  </label>
+                </div>
+              )}
+            </div>
+
+            {/* Timeline of scorecard moments */}
+            {moments.length > 0 && duration > 0 && (
+              <div className="px-4 py-3 border-t border-border">
+                <div className="text-xs text-muted-foreground mb-2">Scorecard moments</div>
+                <div className="relative h-2 rounded-full bg-secondary">
+                  <div
+                    className="absolute inset-y-0 left-0 rounded-full bg-primary/40"
+                    style={{ width: `${Math.min(100, (currentTime / duration) * 100)}%` }}
+                  />
+                  {moments.map((moment, i) => {
+                    const offset = messages[moment.messageIndex].recordingOffset;
+                    if (offset === undefined) return null;
+                    return (
+                      <button
+                        key={i}
+                        type="button"
+                        onClick={() => seek(offset)}
+                        title={`${formatClock(Math.floor(offset))} ${moment.comment}`}
+                        className={`absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 rounded-full border-2 border-card ${
+                          moment.kind === "strength" ? "bg-green-400" : "bg-yellow-400"
+                        }`}
+                        style={{ left: `${Math.min(100, (offset / duration) * 100)}%` }}
+                      />
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Transcript */}
+        <div
+          className={`${
+            wasRecorded ? "lg:col-span-2" : "lg:col-span-5"
+          } bg-card rounded-xl border border-border shadow-lg flex flex-col max-h-[640px]`}
+        >
+          <div className="px-4 py-3 border-b border-border text-sm font-medium">Transcript</div>
+          <div ref={transcriptRef} className="flex-1 overflow-y-auto p-3 space-y-2">
+            {messages.map((message, index) => {
+              if (message.role === "system") return null;
+              const offset = message.recordingOffset;
+              const canSeek = offset !== undefined && source !== null;
+              return (
+                <div
+                  key={index}
+                  data-message-index={index}
+                  className={`rounded-lg p-2.5 space-y-1.5 transition-colors ${
+                    index === activeIndex ? "bg-primary/10 ring-1 ring-primary/40" : "bg-secondary/40"
+                  } ${index === focusMessageIndex && index !== activeIndex ? "ring-1 ring-accent/60" : ""}`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => canSeek && seek(offset)}
+                    disabled={!canSeek}
+                    className="w-full text-left enabled:cursor-pointer disabled:cursor-default"
+                  >
+                    <div className="flex items-center gap-2 text-xs mb-1">
+                      <span
+                        className={
+                          message.role === "assistant"
+                            ? "text-primary font-medium"
+                            : "text-accent font-medium"
+                        }
+                      >
+                        {message.role === "assistant" ? "Interviewer" : "You"}
+                      </span>
+                      {offset !== undefined && (
+                        <span className="flex items-center gap-1 text-muted-foreground tabular-nums">
+                          <Play className="w-3 h-3" />
+                          {formatClock(Math.floor(offset))}
+                        </span>
+                      )}
+                      {message.code && <Code2 className="w-3 h-3 text-muted-foreground" />}
+                    </div>
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">
+                      {getPreview(message)}
+                    </p>
+                  </button>
+                  {momentsByMessage.get(index)?.map((moment, i) => (
+                    <MomentNote
+                      key={i}
+                      moment={moment}
+                      onSeek={canSeek ? () => seek(offset) : undefined}
+                    />
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useCallback } from "react";
+import { useCallback, useEffect, useState } from "react";
 import {
   Code,
   ListChecks,
@@ -14,6 +14,9 @@ import {
   Layers,
   AlertCircle,
   Play,
+  Bot,
+  Languages,
+  Loader2,
 } from "lucide-react";
 import { useInterviewStore } from "@/store/useInterviewStore";
 import type {
@@ -21,6 +24,8 @@ import type {
   DifficultyLevel,
   InterviewDuration,
 } from "@/store/useInterviewStore";
+import type { ProviderInfo } from "@/lib/llm";
+import { languageOptions } from "@/lib/languages";
 
 const interviewTypeOptions: {
   id: InterviewType;
@@ -79,7 +84,7 @@ const durationOptions: { value: InterviewDuration; label: string }[] = [
 ];
 
 interface SetupFormProps {
-  onStartInterview: () => void;
+  onStartInterview: () => Promise<void>;
 }
 
 export default function SetupForm({ onStartInterview }: SetupFormProps) {
@@ -94,13 +99,47 @@ export default function SetupForm({ onStartInterview }: SetupFormProps) {
     setDifficulty,
     duration,
     setDuration,
+    language,
+    setLanguage,
+    aiProvider,
+    setAiProvider,
+    aiModel,
+    setAiModel,
   } = useInterviewStore();
 
+  const [providerOptions, setProviderOptions] = useState<ProviderInfo[]>([]);
+
+  // Load the providers and models configured on the server
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/chat")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.providers) setProviderOptions(data.providers);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const selectedProvider = providerOptions.find((p) => p.id === aiProvider);
+
   const isValid = interviewTypes.length > 0;
 
-  const handleStart = useCallback(() => {
-    if (isValid) {
-      onStartInterview();
+  const [isStarting, setIsStarting] = useState(false);
+  const [startError, setStartError] = useState<string | null>(null);
+
+  const handleStart = useCallback(async () => {
+    if (!isValid) return;
+    setIsStarting(true);
+    setStartError(null);
+    try {
+      await onStartInterview();
+    } catch (err) {
+      setStartError(err instanceof Error ? err.message : "Could not start the interview");
+    } finally {
+      setIsStarting(false);
     }
   }, [isValid, onStartInterview]);
 
@@ -239,6 +278,85 @@ export default function SetupForm({ onStartInterview }: SetupFormProps) {
         </div>
       </div>
 
+      {/* Interview Language */}
+      <div className="space-y-3">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <Languages className="w-4 h-4 text-muted-foreground" />
+          Interview Language
+        </label>
+        <div className="flex flex-wrap gap-3">
+          {languageOptions.map((option) => (
+            <button
+              key={option.code}
+              type="button"
+              onClick={() => setLanguage(option.code)}
+              className={`py-2.5 px-4 rounded-lg border text-sm font-medium transition-all ${
+                language === option.code
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "bg-secondary text-foreground border-border hover:border-primary/50"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* AI Provider & Model */}
+      {providerOptions.length > 0 && (
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <Bot className="w-4 h-4 text-muted-foreground" />
+            AI Model
+          </label>
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="button"
+              onClick={() => setAiProvider(null)}
+              className={`py-2.5 px-4 rounded-lg border text-sm font-medium transition-all ${
+                aiProvider === null
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "bg-secondary text-foreground border-border hover:border-primary/50"
+              }`}
+            >
+              Auto
+            </button>
+            {providerOptions.map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => setAiProvider(option.id)}
+                className={`py-2.5 px-4 rounded-lg border text-sm font-medium transition-all ${
+                  aiProvider === option.id
+                    ? "bg-primary text-primary-foreground border-primary"
+                    : "bg-secondary text-foreground border-border hover:border-primary/50"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {selectedProvider && (
+            <select
+              value={aiModel ?? selectedProvider.defaultModel}
+              onChange={(e) =>
+                setAiModel(
+                  e.target.value === selectedProvider.defaultModel ? null : e.target.value
+                )
+              }
+              className="w-full bg-secondary border border-border rounded-lg px-4 py-2.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              {selectedProvider.models.map((model) => (
+                <option key={model} value={model}>
+                  {model}
+                  {model === selectedProvider.defaultModel ? " (default)" : ""}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+
       {/* Voice Selection */}
       <div className="space-y-3">
         <label className="flex items-center gap-2 text-sm font-medium">
@@ -274,12 +392,18 @@ export default function SetupForm({ onStartInterview }: SetupFormProps) {
       {/* Start Button */}
       <button
         onClick={handleStart}
-        disabled={!isValid}
+        disabled={!isValid || isStarting}
         className="w-full flex items-center justify-center gap-2 bg-primary hover:bg-primary/90 disabled:bg-primary/50 disabled:cursor-not-allowed text-primary-foreground font-medium py-3.5 px-6 rounded-lg transition-colors text-base"
       >
-        <Play className="w-5 h-5" />
+        {isStarting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Play className="w-5 h-5" />}
         Start Interview
       </button>
+      {startError && (
+        <p className="flex items-center gap-1.5 text-xs text-red-500">
+          <AlertCircle className="w-3.5 h-3.5" />
+          Could not start the interview: {startError}
+        </p>
+      )}
 
       {/* Summary */}
       {isValid && (
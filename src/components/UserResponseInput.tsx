@@ -1,25 +1,34 @@
 "use client";
 
 import { useState, useRef, useEffect, useCallback } from "react";
-import { Send, Mic, MicOff, Loader2, Volume2 } from "lucide-react";
+import { Send, Mic, MicOff, Loader2, Volume2, Square } from "lucide-react";
 import type {
   SpeechRecognition,
   SpeechRecognitionEvent,
   SpeechRecognitionErrorEvent,
 } from "@/types/speech";
+import { useServerTranscription } from "@/hooks/useServerTranscription";
+import { getBaseLanguage } from "@/lib/languages";
 
 interface UserResponseInputProps {
-  onSubmit: (answer: string) => void;
+  // spoken is true for answers given with voice input
+  onSubmit: (answer: string, spoken: boolean) => void;
+  // Stops the interviewer while it is thinking or speaking
+  onInterrupt?: () => void;
   isAiThinking: boolean;
   isAiSpeaking: boolean;
   placeholder?: string;
+  // BCP 47 tag for speech recognition
+  language?: string;
 }
 
 export default function UserResponseInput({
   onSubmit,
+  onInterrupt,
   isAiThinking,
   isAiSpeaking,
   placeholder = "Type your answer...",
+  language = "en-US",
 }: UserResponseInputProps) {
   const [input, setInput] = useState("");
   const [isRecording, setIsRecording] = useState(false);
@@ -31,6 +40,21 @@ export default function UserResponseInput({
   const recognitionRef = useRef<SpeechRecognition | null>(null);
   const finalTranscriptRef = useRef("");
   const silenceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // True while recording through /api/transcribe instead of the browser
+  const serverRecordingRef = useRef(false);
+
+  // Prefer server-side transcription when configured, so audio stays local
+  const {
+    start: startServerTranscription,
+    stop: stopServerTranscription,
+    abort: abortServerTranscription,
+    isAvailable: isServerTranscriptionAvailable,
+  } = useServerTranscription({
+    language: getBaseLanguage(language),
+    onInterim: (text) => setInterimTranscript(text),
+    onError: (err) => console.error("Transcription error:", err),
+  });
+  const canRecord = speechSupported || isServerTranscriptionAvailable;
 
   // Check if input should be disabled
   const isDisabled = isAiThinking || isAiSpeaking;
@@ -71,10 +95,10 @@ export default function UserResponseInput({
   }, [isDisabled, isRecording]);
 
   const submitAnswer = useCallback(
-    (text: string) => {
+    (text: string, spoken: boolean) => {
       const trimmedText = text.trim();
       if (trimmedText && !isDisabled) {
-        onSubmit(trimmedText);
+        onSubmit(trimmedText, spoken);
         setInput("");
         setInterimTranscript("");
         finalTranscriptRef.current = "";
@@ -87,7 +111,7 @@ export default function UserResponseInput({
   );
 
   const handleTextSubmit = useCallback(() => {
-    submitAnswer(input);
+    submitAnswer(input, false);
   }, [input, submitAnswer]);
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -104,6 +128,22 @@ export default function UserResponseInput({
         silenceTimeoutRef.current = null;
       }
 
+      // The server sends its final transcript once the last chunk is uploaded
+      if (serverRecordingRef.current) {
+        serverRecordingRef.current = false;
+        setIsRecording(false);
+        setRecordingStatus("");
+        setInterimTranscript("");
+        if (shouldSubmit) {
+          stopServerTranscription().then((text) => {
+            if (text.trim()) submitAnswer(text, true);
+          });
+        } else {
+          abortServerTranscription();
+        }
+        return;
+      }
+
       if (recognitionRef.current) {
         recognitionRef.current.abort();
         recognitionRef.current = null;
@@ -114,17 +154,36 @@ export default function UserResponseInput({
 
       // Auto-submit the transcription if we have content
       if (shouldSubmit && finalTranscriptRef.current.trim()) {
-        submitAnswer(finalTranscriptRef.current);
+        submitAnswer(finalTranscriptRef.current, true);
       }
 
       setInterimTranscript("");
       finalTranscriptRef.current = "";
     },
-    [submitAnswer]
+    [submitAnswer, stopServerTranscription, abortServerTranscription]
   );
 
   const startRecording = useCallback(() => {
-    if (!speechSupported || isDisabled) return;
+    if (!canRecord || isDisabled) return;
+
+    if (isServerTranscriptionAvailable) {
+      finalTranscriptRef.current = "";
+      setInterimTranscript("");
+      setInput("");
+      serverRecordingRef.current = true;
+
+      startServerTranscription()
+        .then(() => {
+          setIsRecording(true);
+          setRecordingStatus("Listening...");
+        })
+        .catch((err) => {
+          console.error("Failed to start recording:", err);
+          serverRecordingRef.current = false;
+          setRecordingStatus("Failed to start");
+        });
+      return;
+    }
 
     const SpeechRecognition =
       window.SpeechRecognition || window.webkitSpeechRecognition;
@@ -138,7 +197,7 @@ export default function UserResponseInput({
     const recognition = new SpeechRecognition();
     recognition.continuous = true;
     recognition.interimResults = true;
-    recognition.lang = "en-US";
+    recognition.lang = language;
 
     recognition.onstart = () => {
       setIsRecording(true);
@@ -214,7 +273,15 @@ export default function UserResponseInput({
       setRecordingStatus("Failed to start");
       setIsRecording(false);
     }
-  }, [speechSupported, isDisabled, isRecording, stopRecording]);
+  }, [
+    canRecord,
+    isDisabled,
+    isRecording,
+    isServerTranscriptionAvailable,
+    language,
+    startServerTranscription,
+    stopRecording,
+  ]);
 
   const toggleRecording = useCallback(() => {
     if (isRecording) {
@@ -308,7 +375,7 @@ export default function UserResponseInput({
         </div>
 
         {/* Record Button */}
-        {speechSupported && (
+        {canRecord && (
           <button
             onClick={toggleRecording}
             disabled={isDisabled}
@@ -333,25 +400,35 @@ export default function UserResponseInput({
           </button>
         )}
 
-        {/* Send Button */}
-        <button
-          onClick={handleTextSubmit}
-          disabled={isDisabled || !input.trim() || isRecording}
-          className="flex-shrink-0 p-3 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          title={
-            isDisabled
-              ? "Wait for AI to finish"
-              : isRecording
-              ? "Stop recording first"
-              : "Send message"
-          }
-        >
-          {isAiThinking ? (
-            <Loader2 className="w-5 h-5 animate-spin" />
-          ) : (
-            <Send className="w-5 h-5" />
-          )}
-        </button>
+        {/* Stop Button - replaces Send while the AI is responding */}
+        {isDisabled && onInterrupt ? (
+          <button
+            onClick={onInterrupt}
+            className="flex-shrink-0 p-3 bg-secondary text-foreground border border-border rounded-lg hover:border-red-500/50 hover:text-red-400 transition-colors"
+            title="Stop generating"
+          >
+            <Square className="w-5 h-5" />
+          </button>
+        ) : (
+          <button
+            onClick={handleTextSubmit}
+            disabled={isDisabled || !input.trim() || isRecording}
+            className="flex-shrink-0 p-3 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title={
+              isDisabled
+                ? "Wait for AI to finish"
+                : isRecording
+                ? "Stop recording first"
+                : "Send message"
+            }
+          >
+            {isAiThinking ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : (
+              <Send className="w-5 h-5" />
+            )}
+          </button>
+        )}
       </div>
 
       {/* Helper text */}
@@ -0,0 +1,266 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { PointerEvent } from "react";
+import {
+  ArrowRight,
+  Eraser,
+  MousePointer2,
+  PenTool,
+  Square,
+  Trash2,
+  Type,
+  type LucideIcon,
+} from "lucide-react";
+import { useInterviewStore } from "@/store/useInterviewStore";
+import {
+  BOX_HEIGHT,
+  BOX_WIDTH,
+  createWhiteboardId,
+  describeWhiteboard,
+  EMPTY_WHITEBOARD,
+  isWhiteboardEmpty,
+  WHITEBOARD_HEIGHT,
+  WHITEBOARD_WIDTH,
+} from "@/lib/whiteboard";
+import WhiteboardDiagram from "./WhiteboardDiagram";
+
+type Tool = "select" | "box" | "arrow" | "label";
+
+const tools: { id: Tool; label: string; icon: LucideIcon }[] = [
+  { id: "select", label: "Select and move", icon: MousePointer2 },
+  { id: "box", label: "Add component", icon: Square },
+  { id: "arrow", label: "Connect components", icon: ArrowRight },
+  { id: "label", label: "Add label", icon: Type },
+];
+
+const toolHints: Record<Tool, string> = {
+  select: "Drag to move, click to edit",
+  box: "Click to place a component",
+  arrow: "Click a component, then the one it connects to",
+  label: "Click to place a label",
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export default function Whiteboard() {
+  const { whiteboard, setWhiteboard, messages } = useInterviewStore();
+  const [tool, setTool] = useState<Tool>("select");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [arrowFromId, setArrowFromId] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ id: string; offsetX: number; offsetY: number } | null>(null);
+
+  const selectedBox = whiteboard.boxes.find((b) => b.id === selectedId);
+  const selectedArrow = whiteboard.arrows.find((a) => a.id === selectedId);
+  const selectedNote = whiteboard.notes.find((n) => n.id === selectedId);
+  const selectedLabel = selectedBox?.label ?? selectedArrow?.label ?? selectedNote?.text;
+
+  // Same check useChat uses to decide whether to attach a snapshot
+  const lastSent = messages.findLast((m) => m.whiteboard)?.whiteboard ?? EMPTY_WHITEBOARD;
+  const hasUnsentChanges = describeWhiteboard(whiteboard) !== describeWhiteboard(lastSent);
+
+  // Pointer position in canvas units
+  const toCanvasPoint = (e: PointerEvent<SVGElement>) => {
+    const matrix = svgRef.current?.getScreenCTM()?.inverse();
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix);
+    return { x: point.x, y: point.y };
+  };
+
+  const handleBackgroundPointerDown = (e: PointerEvent<SVGSVGElement>) => {
+    const { x, y } = toCanvasPoint(e);
+    const id = createWhiteboardId();
+
+    if (tool === "box") {
+      setWhiteboard({
+        ...whiteboard,
+        boxes: [
+          ...whiteboard.boxes,
+          {
+            id,
+            x: clamp(x - BOX_WIDTH / 2, 0, WHITEBOARD_WIDTH - BOX_WIDTH),
+            y: clamp(y - BOX_HEIGHT / 2, 0, WHITEBOARD_HEIGHT - BOX_HEIGHT),
+            width: BOX_WIDTH,
+            height: BOX_HEIGHT,
+            label: "Component",
+          },
+        ],
+      });
+      setSelectedId(id);
+      setTool("select");
+    } else if (tool === "label") {
+      setWhiteboard({ ...whiteboard, notes: [...whiteboard.notes, { id, x, y, text: "Label" }] });
+      setSelectedId(id);
+      setTool("select");
+    } else {
+      setSelectedId(null);
+      setArrowFromId(null);
+    }
+  };
+
+  const handleItemPointerDown = (id: string, e: PointerEvent<SVGElement>) => {
+    e.stopPropagation();
+    const isBox = whiteboard.boxes.some((b) => b.id === id);
+
+    if (tool === "arrow") {
+      if (!isBox) return;
+      if (arrowFromId && arrowFromId !== id) {
+        const arrowId = createWhiteboardId();
+        setWhiteboard({
+          ...whiteboard,
+          arrows: [...whiteboard.arrows, { id: arrowId, from: arrowFromId, to: id, label: "" }],
+        });
+        setArrowFromId(null);
+        setSelectedId(arrowId);
+        setTool("select");
+      } else {
+        setArrowFromId(id);
+      }
+      return;
+    }
+
+    setSelectedId(id);
+    const item = whiteboard.boxes.find((b) => b.id === id) ?? whiteboard.notes.find((n) => n.id === id);
+    if (!item) return;
+
+    const { x, y } = toCanvasPoint(e);
+    dragRef.current = { id, offsetX: x - item.x, offsetY: y - item.y };
+    svgRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const { x, y } = toCanvasPoint(e);
+    const nextX = x - drag.offsetX;
+    const nextY = y - drag.offsetY;
+    setWhiteboard({
+      ...whiteboard,
+      boxes: whiteboard.boxes.map((b) =>
+        b.id === drag.id
+          ? {
+              ...b,
+              x: clamp(nextX, 0, WHITEBOARD_WIDTH - b.width),
+              y: clamp(nextY, 0, WHITEBOARD_HEIGHT - b.height),
+            }
+          : b
+      ),
+      notes: whiteboard.notes.map((n) =>
+        n.id === drag.id
+          ? { ...n, x: clamp(nextX, 0, WHITEBOARD_WIDTH), y: clamp(nextY, 12, WHITEBOARD_HEIGHT) }
+          : n
+      ),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleLabelChange = (label: string) => {
+    setWhiteboard({
+      boxes: whiteboard.boxes.map((b) => (b.id === selectedId ? { ...b, label } : b)),
+      arrows: whiteboard.arrows.map((a) => (a.id === selectedId ? { ...a, label } : a)),
+      notes: whiteboard.notes.map((n) => (n.id === selectedId ? { ...n, text: label } : n)),
+    });
+  };
+
+  // Deleting a component also removes the arrows attached to it
+  const handleDelete = () => {
+    setWhiteboard({
+      boxes: whiteboard.boxes.filter((b) => b.id !== selectedId),
+      arrows: whiteboard.arrows.filter(
+        (a) => a.id !== selectedId && a.from !== selectedId && a.to !== selectedId
+      ),
+      notes: whiteboard.notes.filter((n) => n.id !== selectedId),
+    });
+    setSelectedId(null);
+  };
+
+  const handleClear = () => {
+    setWhiteboard(EMPTY_WHITEBOARD);
+    setSelectedId(null);
+    setArrowFromId(null);
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-[240px]">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-border">
+        <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <PenTool className="w-4 h-4 text-muted-foreground" />
+          Whiteboard
+        </div>
+        <div className="flex items-center gap-1">
+          {tools.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => {
+                setTool(id);
+                setArrowFromId(null);
+              }}
+              className={`p-1.5 rounded-md transition-colors ${
+                tool === id
+                  ? "text-primary bg-primary/10"
+                  : "text-muted-foreground hover:text-foreground hover:bg-secondary"
+              }`}
+              title={label}
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+          <button
+            onClick={handleClear}
+            disabled={isWhiteboardEmpty(whiteboard)}
+            className="p-1.5 rounded-md text-muted-foreground hover:text-red-400 hover:bg-secondary disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title="Clear whiteboard"
+          >
+            <Eraser className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Canvas */}
+      <div className="flex-1 min-h-0 bg-secondary/30">
+        <WhiteboardDiagram
+          ref={svgRef}
+          state={whiteboard}
+          selectedId={selectedId}
+          arrowFromId={arrowFromId}
+          className="w-full h-full"
+          onBackgroundPointerDown={handleBackgroundPointerDown}
+          onItemPointerDown={handleItemPointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        />
+      </div>
+
+      {/* Selected item */}
+      <div className="flex items-center gap-2 px-3 py-2 border-t border-border">
+        {selectedLabel !== undefined ? (
+          <>
+            <input
+              value={selectedLabel}
+              onChange={(e) => handleLabelChange(e.target.value)}
+              placeholder={selectedArrow ? "Connection label, e.g. HTTP" : "Label"}
+              className="flex-1 min-w-0 bg-secondary border border-border rounded-md px-2 py-1 text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+            <button
+              onClick={handleDelete}
+              className="p-1.5 rounded-md text-muted-foreground hover:text-red-400 hover:bg-secondary transition-colors"
+              title="Delete"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </>
+        ) : (
+          <span className="flex-1 text-xs text-muted-foreground">{toolHints[tool]}</span>
+        )}
+        {hasUnsentChanges && (
+          <span className="text-xs text-primary whitespace-nowrap">Sent with your next message</span>
+        )}
+      </div>
+    </div>
+  );
+}
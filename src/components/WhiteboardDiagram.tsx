@@ -0,0 +1,153 @@
+"use client";
+
+import type { PointerEvent, Ref } from "react";
+import {
+  getBoxCenter,
+  getBoxEdgePoint,
+  WHITEBOARD_HEIGHT,
+  WHITEBOARD_WIDTH,
+} from "@/lib/whiteboard";
+import type { WhiteboardState } from "@/types/whiteboard";
+
+interface WhiteboardDiagramProps {
+  state: WhiteboardState;
+  selectedId?: string | null;
+  // Box an arrow is being drawn from
+  arrowFromId?: string | null;
+  className?: string;
+  ref?: Ref<SVGSVGElement>;
+  onBackgroundPointerDown?: (e: PointerEvent<SVGSVGElement>) => void;
+  onItemPointerDown?: (id: string, e: PointerEvent<SVGElement>) => void;
+  onPointerMove?: (e: PointerEvent<SVGSVGElement>) => void;
+  onPointerUp?: (e: PointerEvent<SVGSVGElement>) => void;
+}
+
+const MAX_LABEL_LENGTH = 20;
+
+const fit = (text: string) =>
+  text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text;
+
+// Renders a whiteboard; interactive when given pointer handlers
+export default function WhiteboardDiagram({
+  state,
+  selectedId = null,
+  arrowFromId = null,
+  className = "",
+  ref,
+  onBackgroundPointerDown,
+  onItemPointerDown,
+  onPointerMove,
+  onPointerUp,
+}: WhiteboardDiagramProps) {
+  const boxesById = new Map(state.boxes.map((b) => [b.id, b]));
+
+  return (
+    <svg
+      ref={ref}
+      viewBox={`0 0 ${WHITEBOARD_WIDTH} ${WHITEBOARD_HEIGHT}`}
+      className={`touch-none select-none ${className}`}
+      role="img"
+      aria-label="System design whiteboard"
+      onPointerDown={onBackgroundPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+    >
+      <defs>
+        <marker
+          id="whiteboard-arrowhead"
+          viewBox="0 0 10 10"
+          refX="9"
+          refY="5"
+          markerWidth="8"
+          markerHeight="8"
+          orient="auto-start-reverse"
+        >
+          <path d="M 0 0 L 10 5 L 0 10 z" className="fill-muted-foreground" />
+        </marker>
+      </defs>
+
+      {/* Arrows */}
+      {state.arrows.map((arrow) => {
+        const from = boxesById.get(arrow.from);
+        const to = boxesById.get(arrow.to);
+        if (!from || !to) return null;
+
+        const start = getBoxEdgePoint(from, getBoxCenter(to));
+        const end = getBoxEdgePoint(to, getBoxCenter(from));
+        const isSelected = arrow.id === selectedId;
+
+        return (
+          <g key={arrow.id} onPointerDown={(e) => onItemPointerDown?.(arrow.id, e)}>
+            {/* Wide invisible stroke makes the arrow easy to click */}
+            <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke="transparent" strokeWidth={14} />
+            <line
+              x1={start.x}
+              y1={start.y}
+              x2={end.x}
+              y2={end.y}
+              className={isSelected ? "stroke-primary" : "stroke-muted-foreground"}
+              strokeWidth={2}
+              markerEnd="url(#whiteboard-arrowhead)"
+            />
+            {arrow.label && (
+              <text
+                x={(start.x + end.x) / 2}
+                y={(start.y + end.y) / 2 - 6}
+                textAnchor="middle"
+                className="fill-muted-foreground text-[12px]"
+              >
+                {fit(arrow.label)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      {/* Boxes */}
+      {state.boxes.map((box) => {
+        const isSelected = box.id === selectedId || box.id === arrowFromId;
+        return (
+          <g
+            key={box.id}
+            onPointerDown={(e) => onItemPointerDown?.(box.id, e)}
+            className={onItemPointerDown ? "cursor-pointer" : undefined}
+          >
+            <rect
+              x={box.x}
+              y={box.y}
+              width={box.width}
+              height={box.height}
+              rx={8}
+              className={`fill-card ${isSelected ? "stroke-primary" : "stroke-border"}`}
+              strokeWidth={2}
+            />
+            <text
+              x={box.x + box.width / 2}
+              y={box.y + box.height / 2}
+              textAnchor="middle"
+              dominantBaseline="central"
+              className="fill-foreground text-[13px] font-medium"
+            >
+              {fit(box.label)}
+            </text>
+          </g>
+        );
+      })}
+
+      {/* Notes */}
+      {state.notes.map((note) => (
+        <text
+          key={note.id}
+          x={note.x}
+          y={note.y}
+          onPointerDown={(e) => onItemPointerDown?.(note.id, e)}
+          className={`text-[13px] italic ${
+            note.id === selectedId ? "fill-primary" : "fill-muted-foreground"
+          } ${onItemPointerDown ? "cursor-pointer" : ""}`}
+        >
+          {note.text}
+        </text>
+      ))}
+    </svg>
+  );
+}
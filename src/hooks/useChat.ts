@@ -1,5 +1,11 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { useInterviewStore, Message } from "@/store/useInterviewStore";
+import { readEvents } from "@/lib/sse";
+import { formatCodeBlock } from "@/lib/code";
+import { getOptionLetter } from "@/lib/quiz/extractor";
+import { describeWhiteboard, EMPTY_WHITEBOARD } from "@/lib/whiteboard";
+import type { ChatEvent, ChatRequestMessage, CodeSubmission } from "@/types/chat";
+import type { QuizGrade } from "@/types/quiz";
 
 interface UseChatOptions {
   onError?: (error: Error) => void;
@@ -8,6 +14,8 @@ interface UseChatOptions {
 export function useChat(options: UseChatOptions = {}) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
+  // Controller for the in-flight request, null when idle
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const {
     messages,
@@ -15,23 +23,57 @@ export function useChat(options: UseChatOptions = {}) {
     interviewTypes,
     difficulty,
     duration,
+    language,
+    aiProvider,
+    aiModel,
+    whiteboard,
     addMessage,
     setIsSpeaking,
   } = useInterviewStore();
 
   const sendMessage = useCallback(
-    async (userMessage: string) => {
-      if (!userMessage.trim() || isLoading) return;
+    async (userMessage: string, extras?: Pick<Message, "code" | "quizAnswer" | "spoken">) => {
+      if (!userMessage.trim() || abortControllerRef.current) return;
+
+      // Read at send time: a restart creates the session after this callback
+      // was made, and the server refuses turns without one
+      const { sessionId } = useInterviewStore.getState();
+      if (!sessionId) {
+        setError(new Error("The interview session could not be started. Go back to setup and try again."));
+        return;
+      }
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
 
       setIsLoading(true);
       setError(null);
 
+      // Attach the whiteboard when it changed since the last snapshot sent
+      const lastWhiteboard = messages.findLast((m) => m.whiteboard)?.whiteboard ?? EMPTY_WHITEBOARD;
+      const whiteboardChanged =
+        describeWhiteboard(whiteboard) !== describeWhiteboard(lastWhiteboard);
+
       // Add user message to store
-      const userMsg: Message = { role: "user", content: userMessage };
+      const userMsg: Message = {
+        role: "user",
+        content: userMessage,
+        ...extras,
+        whiteboard: whiteboardChanged ? whiteboard : undefined,
+      };
       addMessage(userMsg);
 
       // Prepare messages for API (include the new user message)
-      const apiMessages = [...messages, userMsg];
+      const apiMessages: ChatRequestMessage[] = [...messages, userMsg].map(
+        ({ role, content, code, quiz, quizAnswer, whiteboard }) => ({
+          role,
+          content,
+          code,
+          quiz,
+          quizAnswer,
+          whiteboard,
+        })
+      );
 
       try {
         const response = await fetch("/api/chat", {
@@ -45,7 +87,12 @@ export function useChat(options: UseChatOptions = {}) {
             interviewTypes,
             difficulty,
             duration,
+            language,
+            provider: aiProvider ?? undefined,
+            model: aiModel ?? undefined,
+            sessionId,
           }),
+          signal: controller.signal,
         });
 
         if (!response.ok) {
@@ -54,46 +101,97 @@ export function useChat(options: UseChatOptions = {}) {
         }
 
         // Handle streaming response
-        const reader = response.body?.getReader();
-        if (!reader) {
+        if (!response.body) {
           throw new Error("No response body");
         }
 
         setIsSpeaking(true);
 
-        const decoder = new TextDecoder();
         let assistantContent = "";
+        let streamError: Error | null = null;
 
         // Create a temporary message for streaming
         const tempAssistantMsg: Message = { role: "assistant", content: "" };
         addMessage(tempAssistantMsg);
 
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          assistantContent += chunk;
-
-          // Update the last message with accumulated content
+        // Update the last (assistant) message in place
+        const updateAssistantMessage = (update: Partial<Message>) => {
           useInterviewStore.setState((state) => {
             const updatedMessages = [...state.messages];
             const lastIndex = updatedMessages.length - 1;
             if (lastIndex >= 0 && updatedMessages[lastIndex].role === "assistant") {
               updatedMessages[lastIndex] = {
                 ...updatedMessages[lastIndex],
-                content: assistantContent,
+                ...update,
               };
             }
             return { messages: updatedMessages };
           });
+        };
+
+        for await (const { event, data } of readEvents(response.body)) {
+          const chatEvent = { type: event, ...JSON.parse(data) } as ChatEvent;
+
+          switch (chatEvent.type) {
+            case "meta":
+              updateAssistantMessage({ meta: chatEvent.meta });
+              break;
+            case "token":
+              assistantContent += chatEvent.text;
+              updateAssistantMessage({ content: assistantContent });
+              break;
+            case "usage":
+              updateAssistantMessage({ usage: chatEvent.usage });
+              break;
+            case "quiz":
+              updateAssistantMessage({ quiz: chatEvent.quiz });
+              break;
+            case "tests":
+              // Shown on the submission this turn answers, just before the reply
+              useInterviewStore.setState((state) => ({
+                messages: state.messages.map((m, i) =>
+                  i === state.messages.length - 2 && m.code
+                    ? { ...m, code: { ...m.code, testResults: chatEvent.result } }
+                    : m
+                ),
+              }));
+              break;
+            case "error":
+              streamError = new Error(chatEvent.message);
+              break;
+          }
+
+          if (chatEvent.type === "done") break;
+        }
+
+        // Errors after tokens arrive keep the partial reply but still surface
+        if (streamError) {
+          throw streamError;
         }
 
         setIsSpeaking(false);
       } catch (err) {
+        setIsSpeaking(false);
+
+        // Interrupted: keep the partial reply marked as such, drop it if nothing arrived
+        if (controller.signal.aborted) {
+          useInterviewStore.setState((state) => {
+            const updatedMessages = [...state.messages];
+            const lastIndex = updatedMessages.length - 1;
+            if (lastIndex >= 0 && updatedMessages[lastIndex].role === "assistant") {
+              if (updatedMessages[lastIndex].content) {
+                updatedMessages[lastIndex] = { ...updatedMessages[lastIndex], interrupted: true };
+              } else {
+                updatedMessages.pop();
+              }
+            }
+            return { messages: updatedMessages };
+          });
+          return;
+        }
+
         const error = err instanceof Error ? err : new Error("Unknown error");
         setError(error);
-        setIsSpeaking(false);
         options.onError?.(error);
 
         // Remove the empty assistant message if there was an error
@@ -110,10 +208,66 @@ export function useChat(options: UseChatOptions = {}) {
           return { messages: updatedMessages };
         });
       } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
         setIsLoading(false);
       }
     },
-    [messages, jobDescription, interviewTypes, difficulty, duration, addMessage, setIsSpeaking, isLoading, options]
+    [messages, jobDescription, interviewTypes, difficulty, duration, language, aiProvider, aiModel, whiteboard, addMessage, setIsSpeaking, options]
+  );
+
+  // Cancel the in-flight request; the route then cancels the upstream LLM stream
+  const stop = useCallback(() => {
+    const controller = abortControllerRef.current;
+    if (!controller) return;
+    abortControllerRef.current = null;
+    controller.abort();
+  }, []);
+
+  // Abort any pending request when the chat unmounts
+  useEffect(() => stop, [stop]);
+
+  // Send editor code as its own message type, shown to the interviewer as a code block
+  const sendCode = useCallback(
+    (code: CodeSubmission) => sendMessage(formatCodeBlock(code), { code }),
+    [sendMessage]
+  );
+
+  // Grade a quiz choice on the server, record it on the question, then send
+  // the choice to the interviewer
+  const answerQuiz = useCallback(
+    async (messageIndex: number, choice: number) => {
+      const { quiz, quizGrade } = messages[messageIndex] ?? {};
+      if (!quiz || quizGrade || abortControllerRef.current) return;
+
+      try {
+        const response = await fetch("/api/quiz", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ id: quiz.id, choice }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `HTTP error: ${response.status}`);
+        }
+
+        const grade = data as QuizGrade;
+        useInterviewStore.setState((state) => ({
+          messages: state.messages.map((m, i) => (i === messageIndex ? { ...m, quizGrade: grade } : m)),
+        }));
+        await sendMessage(`${getOptionLetter(choice)}) ${quiz.options[choice]}`, {
+          quizAnswer: { questionId: quiz.id, choice },
+        });
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to grade answer");
+        setError(error);
+        options.onError?.(error);
+      }
+    },
+    [messages, sendMessage, options]
   );
 
   const startInterview = useCallback(async () => {
@@ -126,6 +280,9 @@ export function useChat(options: UseChatOptions = {}) {
     isLoading,
     error,
     sendMessage,
+    sendCode,
+    answerQuiz,
     startInterview,
+    stop,
   };
 }
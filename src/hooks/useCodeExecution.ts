@@ -0,0 +1,77 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { CodeSubmission } from "@/types/chat";
+import type { ExecutionResult, TestSuite } from "@/types/execute";
+
+// Runs editor code against the interviewer's test cases through /api/execute
+export function useCodeExecution() {
+  const [runnableLanguages, setRunnableLanguages] = useState<string[]>([]);
+  const [result, setResult] = useState<ExecutionResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Ask the server which languages it can run
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/execute")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && Array.isArray(data?.languages)) setRunnableLanguages(data.languages);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const run = useCallback(async (code: CodeSubmission, tests: TestSuite) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/execute", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ language: code.language, source: code.source, tests }),
+        signal: controller.signal,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP error: ${response.status}`);
+      }
+      setResult(data as ExecutionResult);
+      return data as ExecutionResult;
+    } catch (err) {
+      if (controller.signal.aborted) return null;
+      setError(err instanceof Error ? err.message : "Failed to run code");
+      return null;
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsRunning(false);
+      }
+    }
+  }, []);
+
+  // Forget the last result, e.g. once the code it belongs to has changed
+  const reset = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsRunning(false);
+    setResult(null);
+    setError(null);
+  }, []);
+
+  // Cancel a run in flight on unmount
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  return { run, reset, result, isRunning, error, runnableLanguages };
+}
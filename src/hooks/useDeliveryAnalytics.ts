@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useRef } from "react";
+import {
+  createVoiceActivityMonitor,
+  createVoiceActivityStats,
+} from "@/lib/deliveryAnalysis";
+import type { VoiceActivityStats } from "@/lib/deliveryAnalysis";
+
+// Monitors the candidate's mic for the whole interview. Stats carry over when
+// the camera is restarted and a new stream comes in.
+export function useDeliveryAnalytics(stream: MediaStream | null, isInterviewerSpeaking: boolean) {
+  const statsRef = useRef<VoiceActivityStats>(createVoiceActivityStats());
+  const interviewerSpeakingRef = useRef(isInterviewerSpeaking);
+
+  useEffect(() => {
+    interviewerSpeakingRef.current = isInterviewerSpeaking;
+  }, [isInterviewerSpeaking]);
+
+  useEffect(() => {
+    if (!stream || stream.getAudioTracks().length === 0) return;
+    const monitor = createVoiceActivityMonitor(
+      stream,
+      statsRef.current,
+      () => interviewerSpeakingRef.current
+    );
+    return () => monitor.stop();
+  }, [stream]);
+
+  // A copy, so later samples don't change what was sent
+  const getStats = useCallback((): VoiceActivityStats | null => {
+    const stats = statsRef.current;
+    if (stats.speakingSeconds === 0 && stats.listeningSeconds === 0) return null;
+    return { ...stats, pauses: [...stats.pauses] };
+  }, []);
+
+  // The running monitor holds the stats object, so it is cleared in place
+  const reset = useCallback(() => {
+    Object.assign(statsRef.current, createVoiceActivityStats());
+  }, []);
+
+  return { getStats, reset };
+}
@@ -1,10 +1,20 @@
 import { useState, useCallback, useRef, useEffect } from "react";
 import { useInterviewStore } from "@/store/useInterviewStore";
+import { composeInterviewVideo, mixAudio } from "@/lib/sessionRecording";
+import type { RecordingSource } from "@/lib/sessionRecording";
+
+// "camera" records the interviewer and the candidate's camera side by side,
+// "screen" records the shared screen
+export type RecordingMode = "camera" | "screen";
 
 interface UseMediaControlsOptions {
   onError?: (error: Error) => void;
   onRecordingComplete?: (blob: Blob, url: string) => void;
   autoInitialize?: boolean;
+  // Canvas the interviewer avatar is rendered to, for camera recordings
+  getInterviewerCanvas?: () => HTMLCanvasElement | null;
+  // The interviewer's voice, mixed into recordings with the mic
+  getInterviewerAudio?: () => MediaStream | null;
 }
 
 interface UseMediaControlsReturn {
@@ -19,6 +29,7 @@ interface UseMediaControlsReturn {
   isInitialized: boolean;
   isInitializing: boolean;
   isRecording: boolean;
+  recordingMode: RecordingMode | null;
   recordingDuration: number;
   recordingUrl: string | null;
   error: Error | null;
@@ -29,7 +40,7 @@ interface UseMediaControlsReturn {
   toggleAudio: () => void;
   startScreenCapture: () => Promise<void>;
   stopScreenCapture: () => void;
-  startRecording: () => void;
+  startRecording: (mode?: RecordingMode) => void;
   stopRecording: () => void;
   downloadRecording: () => void;
   clearRecording: () => void;
@@ -39,7 +50,13 @@ interface UseMediaControlsReturn {
 export function useMediaControls(
   options: UseMediaControlsOptions = {}
 ): UseMediaControlsReturn {
-  const { onError, onRecordingComplete, autoInitialize = false } = options;
+  const {
+    onError,
+    onRecordingComplete,
+    autoInitialize = false,
+    getInterviewerCanvas,
+    getInterviewerAudio,
+  } = options;
 
   // Zustand store sync
   const {
@@ -51,6 +68,9 @@ export function useMediaControls(
     setMicOn,
     setIsScreenSharing,
     setIsRecording,
+    startRecordingClock,
+    stopRecordingClock,
+    setRecording,
   } = useInterviewStore();
 
   // Local state
@@ -58,6 +78,7 @@ export function useMediaControls(
   const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
   const [isInitializing, setIsInitializing] = useState(false);
+  const [recordingMode, setRecordingMode] = useState<RecordingMode | null>(null);
   const [recordingDuration, setRecordingDuration] = useState(0);
   const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
   const [error, setError] = useState<Error | null>(null);
@@ -71,6 +92,13 @@ export function useMediaControls(
   const recordedChunksRef = useRef<Blob[]>([]);
   const recordingIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const recordingStartTimeRef = useRef<number>(0);
+  // Composited video and mixed audio feeding the recorder
+  const recordingSourcesRef = useRef<RecordingSource[]>([]);
+
+  const releaseRecordingSources = useCallback(() => {
+    recordingSourcesRef.current.forEach((source) => source.stop());
+    recordingSourcesRef.current = [];
+  }, []);
 
   // Initialize media stream with video and audio
   const initializeMedia = useCallback(async () => {
@@ -208,36 +236,45 @@ export function useMediaControls(
     setIsScreenSharing(false);
   }, [setIsScreenSharing]);
 
-  // Start recording - combines screen video and mic audio
-  const startRecording = useCallback(() => {
+  // Start recording - the screen or the interviewer and camera, with the mic
+  // and the interviewer's voice mixed into one audio track
+  const startRecording = useCallback((mode?: RecordingMode) => {
     const screen = screenStreamRef.current;
     const media = mediaStreamRef.current;
+    const selectedMode = mode ?? (screen ? "screen" : "camera");
 
-    if (!screen) {
-      const error = new Error("Screen sharing must be active to start recording");
+    if (selectedMode === "screen" && !screen) {
+      const error = new Error("Screen sharing must be active to record the screen");
+      setError(error);
+      onError?.(error);
+      return;
+    }
+    if (selectedMode === "camera" && !media) {
+      const error = new Error("Start the camera before recording");
       setError(error);
       onError?.(error);
       return;
     }
 
     try {
-      // Create a combined stream with screen video and mic audio
+      // Create a combined stream with the chosen video and the mixed audio
       const combinedStream = new MediaStream();
 
-      // Add screen video track
-      const screenVideoTrack = screen.getVideoTracks()[0];
-      if (screenVideoTrack) {
-        combinedStream.addTrack(screenVideoTrack);
-      }
-
-      // Add mic audio track if available and enabled
-      if (media) {
-        const audioTrack = media.getAudioTracks()[0];
-        if (audioTrack && audioTrack.enabled) {
-          combinedStream.addTrack(audioTrack);
+      if (selectedMode === "screen") {
+        const screenVideoTrack = screen!.getVideoTracks()[0];
+        if (screenVideoTrack) {
+          combinedStream.addTrack(screenVideoTrack);
         }
+      } else {
+        const video = composeInterviewVideo(() => getInterviewerCanvas?.() ?? null, media);
+        recordingSourcesRef.current.push(video);
+        video.stream.getVideoTracks().forEach((track) => combinedStream.addTrack(track));
       }
 
+      const audio = mixAudio([media, getInterviewerAudio?.()]);
+      recordingSourcesRef.current.push(audio);
+      audio.stream.getAudioTracks().forEach((track) => combinedStream.addTrack(track));
+
       // Check for supported MIME types
       const mimeTypes = [
         "video/webm;codecs=vp9,opus",
@@ -287,6 +324,13 @@ export function useMediaControls(
         const url = URL.createObjectURL(blob);
         setRecordingUrl(url);
 
+        // Keep it for review; this also runs when the interview unmounts mid-recording
+        setRecording({
+          blob,
+          durationSeconds: (Date.now() - recordingStartTimeRef.current) / 1000,
+        });
+        stopRecordingClock();
+
         // Callback
         onRecordingComplete?.(blob, url);
 
@@ -296,7 +340,9 @@ export function useMediaControls(
           recordingIntervalRef.current = null;
         }
 
+        releaseRecordingSources();
         setIsRecording(false);
+        setRecordingMode(null);
       };
 
       // Handle errors
@@ -305,7 +351,10 @@ export function useMediaControls(
         const error = new Error("Recording error occurred");
         setError(error);
         onError?.(error);
+        releaseRecordingSources();
+        stopRecordingClock();
         setIsRecording(false);
+        setRecordingMode(null);
       };
 
       // Start recording (collect data every second)
@@ -314,6 +363,7 @@ export function useMediaControls(
 
       // Track recording duration
       recordingStartTimeRef.current = Date.now();
+      startRecordingClock();
       setRecordingDuration(0);
 
       recordingIntervalRef.current = setInterval(() => {
@@ -322,14 +372,26 @@ export function useMediaControls(
       }, 1000);
 
       setIsRecording(true);
+      setRecordingMode(selectedMode);
       setError(null);
     } catch (err) {
+      releaseRecordingSources();
       const error =
         err instanceof Error ? err : new Error("Failed to start recording");
       setError(error);
       onError?.(error);
     }
-  }, [setIsRecording, onError, onRecordingComplete]);
+  }, [
+    setIsRecording,
+    startRecordingClock,
+    stopRecordingClock,
+    setRecording,
+    onError,
+    onRecordingComplete,
+    getInterviewerCanvas,
+    getInterviewerAudio,
+    releaseRecordingSources,
+  ]);
 
   // Stop recording
   const stopRecording = useCallback(() => {
@@ -365,13 +427,12 @@ export function useMediaControls(
 
   // Clear recorded video and URL
   const clearRecording = useCallback(() => {
-    if (recordingUrl) {
-      URL.revokeObjectURL(recordingUrl);
-      setRecordingUrl(null);
-    }
+    // The URL is revoked by the effect below
+    setRecordingUrl(null);
+    setRecording(null);
     recordedChunksRef.current = [];
     setRecordingDuration(0);
-  }, [recordingUrl]);
+  }, [setRecording]);
 
   // Stop all media streams
   const stopAllMedia = useCallback(() => {
@@ -404,7 +465,14 @@ export function useMediaControls(
     }
   }, [autoInitialize, isInitialized, isInitializing, initializeMedia]);
 
-  // Cleanup on unmount
+  // Revoke a recording's URL once it is replaced or the component unmounts
+  useEffect(() => {
+    if (!recordingUrl) return;
+    return () => URL.revokeObjectURL(recordingUrl);
+  }, [recordingUrl]);
+
+  // Cleanup on unmount. Kept apart from the URL effect so that finishing a
+  // recording does not stop the camera and mic.
   useEffect(() => {
     return () => {
       // Stop recording
@@ -415,11 +483,7 @@ export function useMediaControls(
       if (recordingIntervalRef.current) {
         clearInterval(recordingIntervalRef.current);
       }
-
-      // Revoke URL
-      if (recordingUrl) {
-        URL.revokeObjectURL(recordingUrl);
-      }
+      releaseRecordingSources();
 
       // Stop all tracks when component unmounts
       const mainStream = mediaStreamRef.current;
@@ -432,7 +496,7 @@ export function useMediaControls(
         screen.getTracks().forEach((track) => track.stop());
       }
     };
-  }, [recordingUrl]);
+  }, [releaseRecordingSources]);
 
   return {
     // Stream references
@@ -446,6 +510,7 @@ export function useMediaControls(
     isInitialized,
     isInitializing,
     isRecording,
+    recordingMode,
     recordingDuration,
     recordingUrl,
     error,
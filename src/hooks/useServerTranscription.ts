@@ -0,0 +1,123 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { TranscribeResponse } from "@/app/api/transcribe/route";
+
+interface UseServerTranscriptionOptions {
+  // ISO-639-1 hint for the backend
+  language?: string;
+  onInterim?: (text: string) => void;
+  onError?: (error: string) => void;
+  // How often MediaRecorder hands over a chunk (and an interim transcript is requested)
+  chunkMs?: number;
+}
+
+// Records the mic with MediaRecorder and streams chunks to /api/transcribe,
+// for browsers without SpeechRecognition or when audio should stay local
+export function useServerTranscription(options: UseServerTranscriptionOptions = {}) {
+  const { language, onInterim, onError, chunkMs = 1500 } = options;
+
+  const [isAvailable, setIsAvailable] = useState(false);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const utteranceIdRef = useRef("");
+  // Chunks are sent one after another so the server sees them in order
+  const uploadsRef = useRef<Promise<string>>(Promise.resolve(""));
+
+  // Check whether the server has a transcription backend
+  useEffect(() => {
+    if (typeof window === "undefined" || !("MediaRecorder" in window)) return;
+
+    let cancelled = false;
+    fetch("/api/transcribe")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.provider && data.provider !== "none") setIsAvailable(true);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const sendChunk = useCallback(
+    (utteranceId: string, chunk: Blob, isFinal: boolean) => {
+      uploadsRef.current = uploadsRef.current.then(async (previous) => {
+        const form = new FormData();
+        form.append("audio", chunk);
+        form.append("utteranceId", utteranceId);
+        form.append("final", String(isFinal));
+        if (language) form.append("language", language);
+
+        try {
+          const response = await fetch("/api/transcribe", { method: "POST", body: form });
+          const data = await response.json();
+          if (!response.ok) {
+            throw new Error(data.error || `HTTP error: ${response.status}`);
+          }
+
+          const { text } = data as TranscribeResponse;
+          if (!isFinal && utteranceId === utteranceIdRef.current) onInterim?.(text);
+          return text;
+        } catch (err) {
+          onError?.(err instanceof Error ? err.message : "Transcription failed");
+          return previous;
+        }
+      });
+    },
+    [language, onInterim, onError]
+  );
+
+  const releaseMic = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    recorderRef.current = null;
+  }, []);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current) return;
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream);
+    const utteranceId = crypto.randomUUID();
+
+    streamRef.current = stream;
+    recorderRef.current = recorder;
+    utteranceIdRef.current = utteranceId;
+    uploadsRef.current = Promise.resolve("");
+
+    recorder.ondataavailable = (event) => {
+      // The last chunk arrives after stop(), and carries the final flag
+      const isFinal = recorder.state === "inactive";
+      if (utteranceIdRef.current !== utteranceId) return;
+      if (event.data.size > 0 || isFinal) sendChunk(utteranceId, event.data, isFinal);
+    };
+
+    recorder.start(chunkMs);
+  }, [chunkMs, sendChunk]);
+
+  // Stop recording and resolve with the final transcript
+  const stop = useCallback(async (): Promise<string> => {
+    const recorder = recorderRef.current;
+    if (!recorder) return "";
+
+    await new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+      recorder.stop();
+    });
+    releaseMic();
+    return uploadsRef.current;
+  }, [releaseMic]);
+
+  // Stop without a final transcript
+  const abort = useCallback(() => {
+    utteranceIdRef.current = "";
+    if (recorderRef.current?.state === "recording") recorderRef.current.stop();
+    releaseMic();
+  }, [releaseMic]);
+
+  // Release the mic on unmount
+  useEffect(() => abort, [abort]);
+
+  return { start, stop, abort, isAvailable };
+}
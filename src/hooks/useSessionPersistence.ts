@@ -0,0 +1,103 @@
+"use client";
+
+import { useEffect } from "react";
+import { useInterviewStore } from "@/store/useInterviewStore";
+import type { InterviewSession } from "@/types/session";
+
+const ACTIVE_SESSION_KEY = "activeInterviewSession";
+const SAVE_DEBOUNCE_MS = 1000;
+
+// Create a saved session from the current setup. The server starts the
+// session's clock and refuses chat turns without one, so callers must wait for
+// this before the first turn and handle it failing.
+export async function createSavedSession() {
+  const state = useInterviewStore.getState();
+  state.setSessionId(null);
+
+  const response = await fetch("/api/sessions", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      jobDescription: state.jobDescription,
+      interviewTypes: state.interviewTypes,
+      difficulty: state.difficulty,
+      duration: state.duration,
+      language: state.language,
+      provider: state.aiProvider,
+      model: state.aiModel,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error: ${response.status}`);
+  }
+
+  const session: InterviewSession = await response.json();
+  state.setSessionId(session.id);
+}
+
+// Keeps the store in sync with /api/sessions so a refresh can resume the interview
+export function useSessionPersistence() {
+  const {
+    sessionId,
+    currentStep,
+    messages,
+    scorecard,
+    resumeSession,
+  } = useInterviewStore();
+
+  // Resume the in-progress session from before the reload, if any
+  useEffect(() => {
+    const id = localStorage.getItem(ACTIVE_SESSION_KEY);
+    if (!id) return;
+
+    let cancelled = false;
+    fetch(`/api/sessions/${id}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((session: InterviewSession | null) => {
+        if (!cancelled && session?.status === "in-progress") {
+          resumeSession(session);
+        }
+      })
+      .catch((err) => console.error("Failed to resume session:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [resumeSession]);
+
+  // Remember the active session across reloads until it is finished or abandoned
+  useEffect(() => {
+    if (sessionId && currentStep === "interviewing") {
+      localStorage.setItem(ACTIVE_SESSION_KEY, sessionId);
+    } else {
+      localStorage.removeItem(ACTIVE_SESSION_KEY);
+    }
+  }, [sessionId, currentStep]);
+
+  // Save the transcript and scorecard once streaming settles
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const timeout = setTimeout(() => {
+      fetch(`/api/sessions/${sessionId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          status: currentStep === "feedback" ? "completed" : "in-progress",
+          messages,
+          scorecard,
+        }),
+      }).catch((err) => console.error("Failed to save session:", err));
+    }, SAVE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [sessionId, currentStep, messages, scorecard]);
+
+  return { startSession: createSavedSession };
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react";
+import { useInterviewStore } from "@/store/useInterviewStore";
+import { getSessionClock } from "@/lib/sessionClock";
+
+// Ticks once a second while a session is running and reports the clock
+// against the selected interview duration
+export function useSessionTimer() {
+  const { sessionStartedAt, duration } = useInterviewStore();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!sessionStartedAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [sessionStartedAt]);
+
+  const elapsedSeconds = sessionStartedAt ? Math.max(0, now - sessionStartedAt) / 1000 : 0;
+  const clock = getSessionClock(elapsedSeconds, duration);
+
+  return {
+    ...clock,
+    isRunning: sessionStartedAt !== null,
+  };
+}
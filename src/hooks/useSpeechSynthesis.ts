@@ -4,24 +4,61 @@ import { useCallback, useEffect, useRef, useState } from "react";
 
 export type VoiceGender = "female" | "male";
 
+// A word or sentence boundary reached while speaking
+export interface SpeechBoundary {
+  name: "word" | "sentence";
+  word: string;
+  charIndex: number;
+  charLength: number;
+  // Milliseconds since the utterance started
+  elapsedTime: number;
+}
+
 interface UseSpeechSynthesisOptions {
   onStart?: () => void;
   onEnd?: () => void;
   onError?: (error: string) => void;
+  onBoundary?: (boundary: SpeechBoundary) => void;
   rate?: number;
   pitch?: number;
   volume?: number;
   voiceName?: string;
   preferredGender?: VoiceGender;
+  // BCP 47 tag of the spoken language
+  lang?: string;
 }
 
 // Helper function to find a natural-sounding voice based on gender preference
+// and language. The named voices below are English, so other languages only
+// go by keywords among the voices that speak them.
 export function findVoiceByGender(
   voices: SpeechSynthesisVoice[],
-  gender: VoiceGender
+  gender: VoiceGender,
+  lang: string = "en-US"
 ): SpeechSynthesisVoice | null {
   if (voices.length === 0) return null;
 
+  const baseLang = lang.split("-")[0].toLowerCase();
+  const speaksLang = (v: SpeechSynthesisVoice) => v.lang.toLowerCase().startsWith(baseLang);
+  if (baseLang !== "en") {
+    const langVoices = voices.filter(speaksLang);
+    const exact = langVoices.filter((v) => v.lang.toLowerCase() === lang.toLowerCase());
+    const keywords = gender === "female" ? ["female", "woman"] : ["male", "man"];
+    return (
+      langVoices.find((v) => {
+        const nameLower = v.name.toLowerCase();
+        // "female" contains "male", so rule it out explicitly for male voices
+        return (
+          keywords.some((keyword) => nameLower.includes(keyword)) &&
+          (gender === "female" || !nameLower.includes("female"))
+        );
+      }) ||
+      exact[0] ||
+      langVoices[0] ||
+      null
+    );
+  }
+
   // Known high-quality voices categorized by gender
   const femaleVoices = [
     "Google UK English Female",
@@ -81,23 +118,37 @@ export function useSpeechSynthesis(options: UseSpeechSynthesisOptions = {}) {
     onStart,
     onEnd,
     onError,
+    onBoundary,
     rate = 1,
     pitch = 1,
     volume = 1,
     voiceName,
     preferredGender = "female",
+    lang = "en-US",
   } = options;
 
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
-  const [isSupported, setIsSupported] = useState(false);
+  const [hasWebSpeech, setHasWebSpeech] = useState(false);
+  const [hasServerTTS, setHasServerTTS] = useState(false);
   const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
   const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const pendingRef = useRef(0);
+  const generationRef = useRef(0);
+  const isActiveRef = useRef(false);
+  // Server audio plays one clip after another through this chain
+  const playbackRef = useRef<Promise<void>>(Promise.resolve());
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Copy of the engine audio for recordings, created on first capture
+  const captureNodeRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+  const boundaryTimersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const isSupported = hasWebSpeech || hasServerTTS;
 
   // Check for browser support and load voices
   useEffect(() => {
     if (typeof window !== "undefined" && "speechSynthesis" in window) {
-      setIsSupported(true);
+      setHasWebSpeech(true);
 
       const loadVoices = () => {
         const availableVoices = window.speechSynthesis.getVoices();
@@ -115,6 +166,22 @@ export function useSpeechSynthesis(options: UseSpeechSynthesisOptions = {}) {
     }
   }, []);
 
+  // Prefer the server's TTS engine when one is configured
+  useEffect(() => {
+    if (typeof window === "undefined" || !("AudioContext" in window)) return;
+
+    let cancelled = false;
+    fetch("/api/tts")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.engine && data.engine !== "none") setHasServerTTS(true);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   // Get the best voice for the interviewer based on gender preference
   const getVoice = useCallback((): SpeechSynthesisVoice | null => {
     if (voices.length === 0) return null;
@@ -126,93 +193,260 @@ export function useSpeechSynthesis(options: UseSpeechSynthesisOptions = {}) {
     }
 
     // Use the gender-based voice finder
-    return findVoiceByGender(voices, preferredGender);
-  }, [voices, voiceName, preferredGender]);
+    return findVoiceByGender(voices, preferredGender, lang);
+  }, [voices, voiceName, preferredGender, lang]);
+
+  // Drop everything queued. Bumping the generation makes the cancelled
+  // utterances' late end/error events no-ops.
+  const cancelQueue = useCallback(() => {
+    generationRef.current += 1;
+    pendingRef.current = 0;
+    isActiveRef.current = false;
+    playbackRef.current = Promise.resolve();
+    boundaryTimersRef.current.forEach(clearTimeout);
+    boundaryTimersRef.current = [];
+    audioSourceRef.current?.stop();
+    audioSourceRef.current = null;
+    if ("speechSynthesis" in window) window.speechSynthesis.cancel();
+  }, []);
 
-  const speak = useCallback(
-    (text: string) => {
-      if (!isSupported || !text.trim()) return;
+  // Speak one piece of text with the Web Speech API, resolving when it ends
+  const speakWithWebSpeech = useCallback(
+    (text: string, isCurrent: () => boolean, onStarted: () => void) =>
+      new Promise<void>((resolve, reject) => {
+        const utterance = new SpeechSynthesisUtterance(text);
+        utteranceRef.current = utterance;
+
+        // Set voice
+        const voice = getVoice();
+        if (voice) {
+          utterance.voice = voice;
+        }
+
+        // Set properties
+        utterance.lang = lang;
+        utterance.rate = rate;
+        utterance.pitch = pitch;
+        utterance.volume = volume;
+
+        // Event handlers
+        utterance.onstart = () => {
+          if (isCurrent()) onStarted();
+        };
+
+        utterance.onend = () => resolve();
+
+        utterance.onerror = (event) => reject(new Error(event.error));
+
+        utterance.onpause = () => {
+          setIsPaused(true);
+        };
+
+        utterance.onresume = () => {
+          setIsPaused(false);
+        };
+
+        // Not every voice fires boundary events, and charLength is missing in
+        // some browsers, so fall back to reading the word out of the text
+        utterance.onboundary = (event) => {
+          if (!isCurrent()) return;
+          const charLength =
+            event.charLength || /^\S*/.exec(text.slice(event.charIndex))![0].length;
+          onBoundary?.({
+            name: event.name === "sentence" ? "sentence" : "word",
+            word: text.slice(event.charIndex, event.charIndex + charLength),
+            charIndex: event.charIndex,
+            charLength,
+            elapsedTime: event.elapsedTime,
+          });
+        };
+
+        window.speechSynthesis.speak(utterance);
+      }),
+    [getVoice, lang, rate, pitch, volume, onBoundary]
+  );
 
-      // Cancel any ongoing speech
-      window.speechSynthesis.cancel();
+  const getAudioContext = useCallback(() => {
+    if (!audioContextRef.current) audioContextRef.current = new AudioContext();
+    return audioContextRef.current;
+  }, []);
 
-      const utterance = new SpeechSynthesisUtterance(text);
-      utteranceRef.current = utterance;
+  // Stream of the interviewer's voice for recording. Only engine audio can be
+  // captured; browsers give no access to Web Speech output.
+  const captureOutput = useCallback((): MediaStream | null => {
+    if (!hasServerTTS) return null;
+    if (!captureNodeRef.current) {
+      captureNodeRef.current = getAudioContext().createMediaStreamDestination();
+    }
+    return captureNodeRef.current.stream;
+  }, [hasServerTTS, getAudioContext]);
+
+  // Play engine audio through an AudioContext, resolving when it ends. Audio
+  // has no boundary events, so words are spread evenly over the clip instead.
+  const playAudio = useCallback(
+    async (audio: ArrayBuffer, text: string, isCurrent: () => boolean, onStarted: () => void) => {
+      const context = getAudioContext();
+      if (context.state === "suspended") await context.resume();
+
+      const buffer = await context.decodeAudioData(audio);
+      if (!isCurrent()) return;
+
+      await new Promise<void>((resolve) => {
+        const source = context.createBufferSource();
+        source.buffer = buffer;
+        source.connect(context.destination);
+        if (captureNodeRef.current) source.connect(captureNodeRef.current);
+        source.onended = () => resolve();
+        audioSourceRef.current = source;
+        source.start();
+        onStarted();
+
+        const durationMs = buffer.duration * 1000;
+        for (const match of text.matchAll(/\S+/g)) {
+          const elapsedTime = (match.index! / text.length) * durationMs;
+          boundaryTimersRef.current.push(
+            setTimeout(() => {
+              if (!isCurrent()) return;
+              onBoundary?.({
+                name: "word",
+                word: match[0],
+                charIndex: match.index!,
+                charLength: match[0].length,
+                elapsedTime,
+              });
+            }, elapsedTime)
+          );
+        }
+      });
+    },
+    [onBoundary, getAudioContext]
+  );
 
-      // Set voice
-      const voice = getVoice();
-      if (voice) {
-        utterance.voice = voice;
-      }
+  // Queue text after whatever is already being spoken. onStart and onEnd fire
+  // once for a whole run of queued utterances.
+  const enqueue = useCallback(
+    (text: string) => {
+      if (!isSupported || !text.trim()) return;
 
-      // Set properties
-      utterance.rate = rate;
-      utterance.pitch = pitch;
-      utterance.volume = volume;
+      const generation = generationRef.current;
+      const isCurrent = () => generation === generationRef.current;
 
-      // Event handlers
-      utterance.onstart = () => {
-        setIsSpeaking(true);
+      const started = () => {
         setIsPaused(false);
+        if (isActiveRef.current) return;
+        isActiveRef.current = true;
+        setIsSpeaking(true);
         onStart?.();
       };
 
-      utterance.onend = () => {
+      const finish = () => {
+        pendingRef.current = Math.max(pendingRef.current - 1, 0);
+        if (pendingRef.current > 0) return;
+        isActiveRef.current = false;
         setIsSpeaking(false);
         setIsPaused(false);
         onEnd?.();
       };
 
-      utterance.onerror = (event) => {
-        setIsSpeaking(false);
-        setIsPaused(false);
-        onError?.(event.error);
-      };
-
-      utterance.onpause = () => {
-        setIsPaused(true);
-      };
-
-      utterance.onresume = () => {
-        setIsPaused(false);
-      };
+      // Start fetching server audio right away so it is ready when its turn comes
+      const audio = hasServerTTS
+        ? fetch("/api/tts", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ text, voice: preferredGender, language: lang, speed: rate }),
+          }).then((res) => {
+            if (!res.ok) throw new Error(`TTS error: ${res.status}`);
+            return res.arrayBuffer();
+          })
+        : null;
+      // Avoid unhandled rejections if the queue is cancelled before playback
+      audio?.catch(() => {});
+
+      pendingRef.current += 1;
+      playbackRef.current = playbackRef.current.then(async () => {
+        if (!isCurrent()) return;
+        try {
+          if (audio) {
+            try {
+              await playAudio(await audio, text, isCurrent, started);
+            } catch (err) {
+              // Fall back to the browser's voices when the engine fails
+              if (!hasWebSpeech || !isCurrent()) throw err;
+              await speakWithWebSpeech(text, isCurrent, started);
+            }
+          } else {
+            await speakWithWebSpeech(text, isCurrent, started);
+          }
+        } catch (err) {
+          if (isCurrent()) onError?.(err instanceof Error ? err.message : "Speech failed");
+        }
+        if (isCurrent()) finish();
+      });
+    },
+    [
+      isSupported,
+      hasServerTTS,
+      hasWebSpeech,
+      preferredGender,
+      lang,
+      rate,
+      playAudio,
+      speakWithWebSpeech,
+      onStart,
+      onEnd,
+      onError,
+    ]
+  );
 
-      // Speak
-      window.speechSynthesis.speak(utterance);
+  // Speak text right away, replacing anything queued
+  const speak = useCallback(
+    (text: string) => {
+      if (!isSupported || !text.trim()) return;
+      cancelQueue();
+      enqueue(text);
     },
-    [isSupported, getVoice, rate, pitch, volume, onStart, onEnd, onError]
+    [isSupported, cancelQueue, enqueue]
   );
 
   const stop = useCallback(() => {
     if (!isSupported) return;
-    window.speechSynthesis.cancel();
+    cancelQueue();
     setIsSpeaking(false);
     setIsPaused(false);
-  }, [isSupported]);
+  }, [isSupported, cancelQueue]);
 
   const pause = useCallback(() => {
     if (!isSupported) return;
-    window.speechSynthesis.pause();
+    if (hasWebSpeech) window.speechSynthesis.pause();
+    audioContextRef.current?.suspend();
     setIsPaused(true);
-  }, [isSupported]);
+  }, [isSupported, hasWebSpeech]);
 
   const resume = useCallback(() => {
     if (!isSupported) return;
-    window.speechSynthesis.resume();
+    if (hasWebSpeech) window.speechSynthesis.resume();
+    audioContextRef.current?.resume();
     setIsPaused(false);
-  }, [isSupported]);
+  }, [isSupported, hasWebSpeech]);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (isSupported) {
-        window.speechSynthesis.cancel();
-      }
+      cancelQueue();
+      audioContextRef.current?.close();
+      audioContextRef.current = null;
+      captureNodeRef.current = null;
     };
-  }, [isSupported]);
+  }, [cancelQueue]);
 
   return {
     speak,
+    enqueue,
+    captureOutput,
+    // False while the browser's voice is used, which recordings can't include
+    canCaptureOutput: hasServerTTS,
     stop,
     pause,
     resume,
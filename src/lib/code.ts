@@ -0,0 +1,115 @@
+// Languages offered in the code editor and a small tokenizer for highlighting
+// them. It only needs to be good enough to read code, not to parse it.
+
+import type { CodeSubmission } from "@/types/chat";
+import type { ExecutionResult } from "@/types/execute";
+import { formatTestResults } from "./testCases";
+
+export type CodeLanguage = "javascript" | "typescript" | "python" | "java" | "cpp" | "go";
+
+export const codeLanguages: { id: CodeLanguage; label: string }[] = [
+  { id: "javascript", label: "JavaScript" },
+  { id: "typescript", label: "TypeScript" },
+  { id: "python", label: "Python" },
+  { id: "java", label: "Java" },
+  { id: "cpp", label: "C++" },
+  { id: "go", label: "Go" },
+];
+
+export function getCodeLanguageLabel(id: string): string {
+  return codeLanguages.find((l) => l.id === id)?.label || id;
+}
+
+const jsKeywords = [
+  "async", "await", "break", "case", "catch", "class", "const", "continue", "default",
+  "delete", "do", "else", "export", "extends", "false", "finally", "for", "function", "if",
+  "import", "in", "instanceof", "let", "new", "null", "of", "return", "static", "super",
+  "switch", "this", "throw", "true", "try", "typeof", "undefined", "var", "void", "while", "yield",
+];
+
+const keywords: Record<CodeLanguage, Set<string>> = {
+  javascript: new Set(jsKeywords),
+  typescript: new Set([
+    ...jsKeywords,
+    "any", "boolean", "enum", "implements", "interface", "keyof", "number", "private",
+    "protected", "public", "readonly", "string", "type", "unknown",
+  ]),
+  python: new Set([
+    "and", "as", "assert", "async", "await", "break", "class", "continue", "def", "del", "elif",
+    "else", "except", "False", "finally", "for", "from", "global", "if", "import", "in", "is",
+    "lambda", "None", "nonlocal", "not", "or", "pass", "raise", "return", "self", "True", "try",
+    "while", "with", "yield",
+  ]),
+  java: new Set([
+    "abstract", "boolean", "break", "case", "catch", "char", "class", "continue", "default",
+    "do", "double", "else", "extends", "false", "final", "finally", "float", "for", "if",
+    "implements", "import", "int", "interface", "long", "new", "null", "package", "private",
+    "protected", "public", "return", "static", "super", "switch", "this", "throw", "throws",
+    "true", "try", "void", "while",
+  ]),
+  cpp: new Set([
+    "auto", "bool", "break", "case", "catch", "char", "class", "const", "continue", "default",
+    "delete", "do", "double", "else", "enum", "false", "float", "for", "if", "include", "int",
+    "long", "namespace", "new", "nullptr", "private", "protected", "public", "return", "std",
+    "struct", "switch", "template", "this", "throw", "true", "try", "using", "vector", "void",
+    "while",
+  ]),
+  go: new Set([
+    "break", "case", "chan", "const", "continue", "default", "defer", "else", "false", "for",
+    "func", "go", "if", "import", "int", "interface", "map", "nil", "package", "range",
+    "return", "select", "string", "struct", "switch", "true", "type", "var",
+  ]),
+};
+
+export type TokenType = "keyword" | "string" | "comment" | "number" | "plain";
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+// Comments, strings, numbers and identifiers; everything else is plain text
+const TOKEN_PATTERNS: Record<"hash" | "slash", RegExp> = {
+  hash: /(#.*)|("""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)|"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?)|(\b\d[\d_.]*\b)|([A-Za-z_$][\w$]*)/g,
+  slash: /(\/\/.*|\/\*[\s\S]*?(?:\*\/|$))|("(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?|`(?:\\.|[^`\\])*`?)|(\b\d[\d_.]*\b)|([A-Za-z_$][\w$]*)/g,
+};
+
+export function tokenize(source: string, language: string): Token[] {
+  const languageKeywords = keywords[language as CodeLanguage] ?? keywords.javascript;
+  const pattern = language === "python" ? TOKEN_PATTERNS.hash : TOKEN_PATTERNS.slash;
+
+  const tokens: Token[] = [];
+  let last = 0;
+  for (const match of source.matchAll(pattern)) {
+    const index = match.index!;
+    if (index > last) tokens.push({ type: "plain", text: source.slice(last, index) });
+
+    const [text, comment, string, number, word] = match;
+    const type: TokenType = comment
+      ? "comment"
+      : string
+        ? "string"
+        : number
+          ? "number"
+          : word && languageKeywords.has(word)
+            ? "keyword"
+            : "plain";
+    tokens.push({ type, text });
+    last = index + text.length;
+  }
+  if (last < source.length) tokens.push({ type: "plain", text: source.slice(last) });
+
+  return tokens;
+}
+
+// Markdown fence for a submission, used as the message text
+export function formatCodeBlock({ language, source }: CodeSubmission): string {
+  return "```" + language + "\n" + source.replace(/\s+$/, "") + "\n```";
+}
+
+// A submission as the interviewer and the scorecard see it, with the results
+// of the server's own run of it
+export function formatCodeSubmission(code: CodeSubmission, testResults?: ExecutionResult): string {
+  const framed = `[Code submission: ${getCodeLanguageLabel(code.language)}]\n${formatCodeBlock(code)}`;
+  return testResults ? `${framed}\n${formatTestResults(testResults)}` : framed;
+}
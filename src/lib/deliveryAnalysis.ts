@@ -0,0 +1,186 @@
+// Delivery analytics: a voice activity monitor on the candidate's mic, and the
+// metrics built from its stats and the spoken answers in the transcript
+
+import type { Message } from "@/store/useInterviewStore";
+import type { DeliveryMetrics, FillerWordCount } from "@/types/delivery";
+import { getBaseLanguage } from "@/lib/languages";
+
+const TICK_MS = 100;
+// Voice has to be this far above the room's noise floor, and above an absolute floor
+const SPEECH_MARGIN_DB = 12;
+const MIN_SPEECH_DB = -55;
+// Short gaps between syllables still count as speaking
+const HANGOVER_MS = 300;
+// How quickly the noise floor follows a louder room
+const NOISE_FLOOR_RISE = 0.005;
+// Shorter gaps are breaths; longer ones are not answering (typing, reading)
+const MIN_PAUSE_SECONDS = 0.5;
+const MAX_PAUSE_SECONDS = 15;
+export const LONG_PAUSE_SECONDS = 3;
+// Too little speech for a meaningful speaking rate
+const MIN_SPEAKING_SECONDS = 10;
+
+// Running totals; the monitor adds to them in place
+export interface VoiceActivityStats {
+  speakingSeconds: number;
+  listeningSeconds: number;
+  pauses: number[];
+  voicedFrames: number;
+  loudnessSum: number;
+  loudnessSquaredSum: number;
+}
+
+export function createVoiceActivityStats(): VoiceActivityStats {
+  return {
+    speakingSeconds: 0,
+    listeningSeconds: 0,
+    pauses: [],
+    voicedFrames: 0,
+    loudnessSum: 0,
+    loudnessSquaredSum: 0,
+  };
+}
+
+// Samples the stream's loudness and tells speech from silence against an
+// adaptive noise floor. While the interviewer speaks the mic is ignored, so
+// their voice leaking into it isn't counted and the turn gap isn't a pause.
+export function createVoiceActivityMonitor(
+  stream: MediaStream,
+  stats: VoiceActivityStats,
+  isInterviewerSpeaking: () => boolean
+): { stop: () => void } {
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  context.createMediaStreamSource(stream).connect(analyser);
+  context.resume().catch(() => {});
+  const samples = new Float32Array(analyser.fftSize);
+
+  let noiseFloor: number | null = null;
+  let lastVoiceAt: number | null = null;
+  let lastTick = performance.now();
+
+  const tick = () => {
+    const now = performance.now();
+    const seconds = (now - lastTick) / 1000;
+    lastTick = now;
+
+    if (isInterviewerSpeaking()) {
+      stats.listeningSeconds += seconds;
+      lastVoiceAt = null;
+      return;
+    }
+    if (!stream.getAudioTracks().some((track) => track.enabled && track.readyState === "live")) {
+      lastVoiceAt = null;
+      return;
+    }
+
+    analyser.getFloatTimeDomainData(samples);
+    let energy = 0;
+    for (const sample of samples) energy += sample * sample;
+    const loudness = 10 * Math.log10(energy / samples.length + 1e-10);
+
+    noiseFloor =
+      noiseFloor === null || loudness < noiseFloor
+        ? loudness
+        : noiseFloor + (loudness - noiseFloor) * NOISE_FLOOR_RISE;
+
+    if (loudness > Math.max(MIN_SPEECH_DB, noiseFloor + SPEECH_MARGIN_DB)) {
+      if (lastVoiceAt !== null) {
+        const gap = (now - lastVoiceAt) / 1000;
+        if (gap >= MIN_PAUSE_SECONDS && gap <= MAX_PAUSE_SECONDS) stats.pauses.push(gap);
+      }
+      lastVoiceAt = now;
+      stats.voicedFrames++;
+      stats.loudnessSum += loudness;
+      stats.loudnessSquaredSum += loudness * loudness;
+    }
+
+    if (lastVoiceAt !== null && now - lastVoiceAt <= HANGOVER_MS) {
+      stats.speakingSeconds += seconds;
+    }
+  };
+
+  const timer = setInterval(tick, TICK_MS);
+
+  return {
+    stop() {
+      clearInterval(timer);
+      context.close();
+    },
+  };
+}
+
+// Filler words are only tracked in English
+const FILLER_PATTERNS: { word: string; pattern: RegExp }[] = [
+  { word: "um", pattern: /\b(?:um+|erm)\b/gi },
+  { word: "uh", pattern: /\b(?:uh+|er|ah)\b/gi },
+  // "like" only when set off by a comma, not "I'd like to"
+  { word: "like", pattern: /,\s*like\b|\blike\s*,/gi },
+  { word: "you know", pattern: /\byou know\b/gi },
+  { word: "I mean", pattern: /\bI mean\b/gi },
+  { word: "basically", pattern: /\bbasically\b/gi },
+  { word: "literally", pattern: /\bliterally\b/gi },
+];
+
+export function countFillerWords(text: string): FillerWordCount[] {
+  return FILLER_PATTERNS.map(({ word, pattern }) => ({
+    word,
+    count: text.match(pattern)?.length ?? 0,
+  }))
+    .filter((f) => f.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const round = (value: number, digits = 1) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+// Metrics for the scorecard. Word-based ones use only answers given by voice;
+// Japanese is written without spaces, so words can't be counted there.
+export function getDeliveryMetrics(
+  messages: Message[],
+  stats: VoiceActivityStats | null,
+  language: string
+): DeliveryMetrics | undefined {
+  const baseLanguage = getBaseLanguage(language);
+  const spokenText = messages
+    .filter((m) => m.role === "user" && m.spoken)
+    .map((m) => m.content)
+    .join("\n");
+  const words = baseLanguage === "ja" ? 0 : countWords(spokenText);
+  const audio = stats && stats.speakingSeconds >= MIN_SPEAKING_SECONDS ? stats : null;
+  if (!audio && words === 0) return undefined;
+
+  const fillerWords = baseLanguage === "en" ? countFillerWords(spokenText) : [];
+  const fillerCount = fillerWords.reduce((sum, f) => sum + f.count, 0);
+  const talkingSeconds = audio ? audio.speakingSeconds + audio.listeningSeconds : 0;
+
+  let volumeVariationDb: number | null = null;
+  if (audio && audio.voicedFrames > 1) {
+    const mean = audio.loudnessSum / audio.voicedFrames;
+    const variance = audio.loudnessSquaredSum / audio.voicedFrames - mean * mean;
+    volumeVariationDb = round(Math.sqrt(Math.max(0, variance)));
+  }
+
+  return {
+    wordsPerMinute: audio && words > 0 ? Math.round(words / (audio.speakingSeconds / 60)) : null,
+    speakingSeconds: audio ? Math.round(audio.speakingSeconds) : null,
+    listeningSeconds: audio ? Math.round(audio.listeningSeconds) : null,
+    // Without the interviewer's voice playing there is nothing to compare against
+    talkRatio: audio && audio.listeningSeconds > 0 ? round(audio.speakingSeconds / talkingSeconds, 2) : null,
+    averagePauseSeconds:
+      audio && audio.pauses.length > 0
+        ? round(audio.pauses.reduce((sum, p) => sum + p, 0) / audio.pauses.length)
+        : null,
+    longestPauseSeconds: audio && audio.pauses.length > 0 ? round(Math.max(...audio.pauses)) : null,
+    longPauses: audio ? audio.pauses.filter((p) => p >= LONG_PAUSE_SECONDS).length : null,
+    fillerWords,
+    fillersPer100Words:
+      baseLanguage === "en" && words > 0 ? round((fillerCount / words) * 100) : null,
+    volumeVariationDb,
+  };
+}
@@ -0,0 +1,46 @@
+import { nodeRuntime } from "./javascript";
+import { pythonRuntime } from "./python";
+import type { TestSuite } from "@/types/execute";
+import type { CodeRuntime, ExecutionLimits } from "./types";
+
+export type { CodeRuntime, ExecutionLimits, RunOptions, RuntimeId } from "./types";
+
+export const runtimes: CodeRuntime[] = [nodeRuntime, pythonRuntime];
+
+// Per run; EXECUTE_TIMEOUT_MS and EXECUTE_MEMORY_MB override the defaults
+export const executionLimits: ExecutionLimits = {
+  timeoutMs: Number(process.env.EXECUTE_TIMEOUT_MS) || 5000,
+  memoryMb: Number(process.env.EXECUTE_MEMORY_MB) || 128,
+};
+
+// Runtime for an editor language, or null if none can run it here
+export function getRuntime(language: string): CodeRuntime | null {
+  return runtimes.find((r) => r.languages.includes(language) && r.isAvailable()) || null;
+}
+
+// Editor languages that can be executed on this server
+export function getRunnableLanguages(): string[] {
+  return runtimes.filter((r) => r.isAvailable()).flatMap((r) => r.languages);
+}
+
+export const MAX_SOURCE_LENGTH = 20000;
+const MAX_TEST_CASES = 20;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// Problem with a test suite, or null if a runtime can take it. Suites come
+// from requests and from the interviewer's replies, so neither is trusted.
+export function validateTestSuite(tests?: TestSuite): string | null {
+  if (!tests || !IDENTIFIER.test(tests.functionName ?? "")) {
+    return "tests.functionName must be a valid identifier";
+  }
+  if (!Array.isArray(tests.cases) || tests.cases.length === 0) {
+    return "tests.cases must be a non-empty array";
+  }
+  if (tests.cases.length > MAX_TEST_CASES) {
+    return `At most ${MAX_TEST_CASES} test cases are supported`;
+  }
+  if (tests.cases.some((c) => !Array.isArray(c?.args))) {
+    return "Every test case needs an args array";
+  }
+  return null;
+}
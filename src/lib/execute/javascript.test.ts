@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { TestSuite } from "@/types/execute";
+import { nodeRuntime } from "./javascript";
+
+const limits = { timeoutMs: 1000, memoryMb: 64 };
+const addTests: TestSuite = {
+  functionName: "add",
+  cases: [
+    { args: [1, 2], expected: 3 },
+    { args: [-1, 1], expected: 0 },
+  ],
+};
+
+const run = (source: string, tests = addTests, language = "javascript") =>
+  nodeRuntime.run(source, language, tests, limits);
+
+describe("nodeRuntime", () => {
+  it("runs each case and captures console output", async () => {
+    const result = await run("function add(a, b) { console.log('adding', [a, b]); return a + b; }");
+    expect(result.passed).toBe(2);
+    expect(result.results.map((r) => r.actual)).toEqual([3, 0]);
+    expect(result.stdout).toBe("adding [1,2]\nadding [-1,1]\n");
+  });
+
+  it("finds exported functions and awaits async ones", async () => {
+    const result = await run("export const add = async (a, b) => a + b;");
+    expect(result.passed).toBe(2);
+  });
+
+  it("compares returned objects by value", async () => {
+    const result = await run("function pair(a, b) { return [a, { b }]; }", {
+      functionName: "pair",
+      cases: [{ args: [1, 2], expected: [1, { b: 2 }] }],
+    });
+    expect(result.passed).toBe(1);
+  });
+
+  it("compiles TypeScript", async () => {
+    const result = await run(
+      "function add(a: number, b: number): number { return a + b; }",
+      addTests,
+      "typescript"
+    );
+    expect(result.passed).toBe(2);
+  });
+
+  it("reports thrown errors and missing functions", async () => {
+    const thrown = await run("function add() { throw new RangeError('nope'); }");
+    expect(thrown.results[0].error).toBe("RangeError: nope");
+
+    const missing = await run("function sum(a, b) { return a + b; }");
+    expect(missing.error).toBe("ReferenceError: Function add is not defined");
+  });
+
+  it("stops infinite loops at the time limit", async () => {
+    const result = await run("function add() { while (true) {} }");
+    expect(result.passed).toBe(0);
+    expect(result.results[0].error).toMatch(/timed out/);
+  });
+
+  it("gives the code no way back to the host", async () => {
+    const escapes = [
+      "console.log.constructor('return process')()",
+      "this.constructor.constructor('return process')()",
+      "module.constructor.constructor('return process')()",
+      "typeof process !== 'undefined' ? process : require('node:fs')",
+      "({ then: (resolve) => resolve.constructor('return process')() })",
+    ];
+    for (const escape of escapes) {
+      const result = await run(`function add() { return ${escape}; }`, {
+        functionName: "add",
+        cases: [{ args: [], expected: null }],
+      });
+      expect(result.results[0].passed).toBe(false);
+      expect(result.results[0].error).toMatch(/EvalError|ReferenceError|never settled/);
+    }
+  });
+});
@@ -0,0 +1,206 @@
+import { runHarness } from "./subprocess";
+import type { CodeRuntime } from "./types";
+
+// Set up inside the sandbox context before the candidate's code runs. The
+// console buffers output in the context, and each case's result is kept as a
+// JSON string, so nothing but strings is ever read back out. The context
+// starts empty: a host object or function inside it would lead back to the
+// host's Function constructor, and from there to process.
+const PRELUDE = `
+(() => {
+  let stdout = "";
+  let solution;
+  let result;
+
+  const describe = (err) => {
+    try {
+      return err && err.name ? err.name + ": " + err.message : String(err);
+    } catch {
+      return "Error";
+    }
+  };
+  const show = (value) => {
+    if (typeof value === "string") return value;
+    try {
+      return JSON.stringify(value) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  };
+  const log = (...args) => {
+    if (stdout.length < 8000) stdout += args.map(show).join(" ") + "\\n";
+  };
+  const record = (value) => {
+    try {
+      result = JSON.stringify(value === undefined ? {} : { actual: value });
+    } catch (err) {
+      result = JSON.stringify({ error: describe(err) });
+    }
+  };
+
+  globalThis.console = { log, info: log, warn: log, error: log, debug: log };
+  globalThis.module = { exports: {} };
+  globalThis.exports = module.exports;
+  globalThis.__harness = {
+    stdout: () => stdout,
+    describe,
+    setSolution(fn) {
+      solution = fn;
+      return typeof fn === "function" ? undefined : "missing";
+    },
+    // Promise results settle in the context's own microtask queue, which
+    // drains before control returns to the runner
+    runCase(argsJson) {
+      result = undefined;
+      try {
+        const value = solution(...JSON.parse(argsJson));
+        if (value && typeof value.then === "function") {
+          Promise.resolve(value).then(record, (err) => {
+            result = JSON.stringify({ error: describe(err) });
+          });
+        } else {
+          record(value);
+        }
+      } catch (err) {
+        result = JSON.stringify({ error: describe(err) });
+      }
+    },
+    result: () => result,
+  };
+})();
+`;
+
+// Runs in a separate node process under the permission model, so even code
+// that got out of the vm context could not read or write files or start
+// processes. Job in on stdin, one JSON line per case out on stdout.
+const RUNNER = `
+const vm = require("node:vm");
+const { isDeepStrictEqual } = require("node:util");
+
+const emit = (message) => process.stdout.write(JSON.stringify(message) + "\\n");
+
+function run({ code, functionName, cases, timeoutMs, prelude }) {
+  // A null prototype, or globalThis.constructor would be the host's Object
+  const context = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+    microtaskMode: "afterEvaluate",
+  });
+  // Only strings cross out of the context; anything else is ignored
+  const evaluate = (source, filename) => {
+    const value = vm.runInContext(source, context, { timeout: timeoutMs, filename });
+    return typeof value === "string" ? value : undefined;
+  };
+  // Errors thrown from the context are described by the context itself
+  const describe = (err) => {
+    if (err instanceof Error) return err.name + ": " + err.message;
+    context.__thrown = err;
+    return evaluate("__harness.describe(globalThis.__thrown)") ?? "Error";
+  };
+  const stdout = () => {
+    try {
+      return evaluate("__harness.stdout()") ?? "";
+    } catch {
+      return "";
+    }
+  };
+
+  vm.runInContext(prelude, context);
+  try {
+    if (!/^[A-Za-z_$][\\w$]*$/.test(functionName)) {
+      throw new SyntaxError("Invalid function name " + JSON.stringify(functionName));
+    }
+    vm.runInContext(code, context, { timeout: timeoutMs, filename: "solution.js" });
+    const missing = evaluate(
+      "__harness.setSolution(typeof " + functionName + " === 'function' ? " + functionName +
+        " : module.exports." + functionName + " || module.exports.default || module.exports)"
+    );
+    if (missing) throw new ReferenceError("Function " + functionName + " is not defined");
+  } catch (err) {
+    emit({ type: "done", stdout: stdout(), error: describe(err) });
+    return;
+  }
+
+  for (const testCase of cases) {
+    let outcome;
+    try {
+      evaluate("__harness.runCase(" + JSON.stringify(JSON.stringify(testCase.args)) + ")");
+      const result = evaluate("__harness.result()");
+      outcome = result === undefined ? { error: "The returned promise never settled" } : JSON.parse(result);
+    } catch (err) {
+      outcome = { error: describe(err) };
+    }
+    if (outcome.error !== undefined) {
+      emit({ type: "case", passed: false, error: String(outcome.error) });
+    } else {
+      const { actual } = outcome;
+      emit({ type: "case", actual, passed: isDeepStrictEqual(actual, testCase.expected) });
+    }
+  }
+  emit({ type: "done", stdout: stdout() });
+}
+
+let input = "";
+process.stdin.setEncoding("utf8");
+process.stdin.on("data", (chunk) => (input += chunk));
+process.stdin.on("end", () => run(JSON.parse(input)));
+`;
+
+// Node 22 stabilized the permission model under a new flag
+const PERMISSION_FLAG = process.allowedNodeEnvironmentFlags.has("--permission")
+  ? "--permission"
+  : "--experimental-permission";
+
+// Drop ES module syntax so the code runs as a plain script
+function stripModuleSyntax(source: string): string {
+  return source
+    .replace(/^\s*import\s[^;\n]*;?\s*$/gm, "")
+    .replace(/^(\s*)export\s+default\s+(?=(async\s+)?(function|class)\b)/gm, "$1")
+    .replace(/^(\s*)export\s+(?=(async\s+)?(function|class|const|let|var)\b)/gm, "$1");
+}
+
+// TypeScript is compiled with the compiler the project already depends on
+async function transpileTypeScript(source: string): Promise<string> {
+  let ts: typeof import("typescript");
+  try {
+    ts = await import("typescript");
+  } catch {
+    throw new Error("Running TypeScript requires the typescript package on the server");
+  }
+  const { outputText } = ts.transpileModule(stripModuleSyntax(source), {
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.None,
+    },
+  });
+  return outputText;
+}
+
+export const nodeRuntime: CodeRuntime = {
+  id: "node",
+  label: "Node.js",
+  languages: ["javascript", "typescript"],
+  isAvailable: () => true,
+
+  async run(source, language, tests, { timeoutMs, memoryMb, signal }) {
+    const code =
+      language === "typescript" ? await transpileTypeScript(source) : stripModuleSyntax(source);
+
+    return runHarness(
+      process.execPath,
+      [PERMISSION_FLAG, "--no-warnings", `--max-old-space-size=${memoryMb}`, "-e", RUNNER],
+      { code, functionName: tests.functionName, cases: tests.cases, timeoutMs, prelude: PRELUDE },
+      tests,
+      {
+        timeoutMs,
+        memoryMb,
+        signal,
+        // The vm timeout covers each case; this also covers starting node
+        timeLimitMs: timeoutMs * 2,
+        describeExit: (stderr) =>
+          stderr.includes("heap out of memory")
+            ? `Memory limit of ${memoryMb} MB exceeded`
+            : stderr.trim().split("\n").pop() || "The program exited before finishing",
+      }
+    );
+  },
+};
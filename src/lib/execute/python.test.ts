@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { pythonRuntime } from "./python";
+
+const tests = { functionName: "add", cases: [{ args: [1, 2], expected: 3 }] };
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("pythonRuntime", () => {
+  it("is off unless enabled and sandboxed", () => {
+    vi.stubEnv("EXECUTE_SANDBOX_COMMAND", "");
+    vi.stubEnv("EXECUTE_UID", "");
+    expect(pythonRuntime.isAvailable()).toBe(false);
+
+    vi.stubEnv("EXECUTE_PYTHON", "1");
+    expect(pythonRuntime.isAvailable()).toBe(false);
+
+    vi.stubEnv("EXECUTE_UID", String(process.getuid?.()));
+    expect(pythonRuntime.isAvailable()).toBe(false);
+  });
+
+  it("refuses to run as the server's own user", async () => {
+    vi.stubEnv("EXECUTE_PYTHON", "1");
+    vi.stubEnv("EXECUTE_SANDBOX_COMMAND", "");
+    vi.stubEnv("EXECUTE_UID", "");
+    const result = await pythonRuntime.run("def add(a, b): return a + b", "python", tests, {
+      timeoutMs: 1000,
+      memoryMb: 64,
+    });
+    expect(result.passed).toBe(0);
+    expect(result.error).toMatch(/sandbox/);
+  });
+});
@@ -0,0 +1,114 @@
+import { spawnSync } from "node:child_process";
+import { isSandboxed, runHarness } from "./subprocess";
+import type { CodeRuntime } from "./types";
+
+const PYTHON_PATH = process.env.PYTHON_PATH || "python3";
+
+// Reads the job from stdin, then limits itself before running anything of the
+// candidate's: address space, CPU seconds, no new processes, no file writes and
+// few open files. It then prints one JSON line per case. The candidate's prints
+// are captured so they cannot corrupt the protocol on stdout. A LeetCode-style
+// `class Solution` also works.
+const HARNESS = `
+import contextlib, io, json, resource, sys
+
+job = json.load(sys.stdin)
+memory = job["memoryMb"] * 1024 * 1024
+cpu_seconds = job["timeoutMs"] // 1000 + 1
+for limit, value in (
+    (resource.RLIMIT_AS, memory),
+    (resource.RLIMIT_CPU, cpu_seconds),
+    # Counted per user, and not enforced for root
+    (resource.RLIMIT_NPROC, 0),
+    (resource.RLIMIT_FSIZE, 0),
+    (resource.RLIMIT_NOFILE, 16),
+):
+    try:
+        resource.setrlimit(limit, (value, value))
+    except (ValueError, OSError):
+        pass
+
+out = io.StringIO()
+protocol = sys.stdout
+
+def emit(message):
+    protocol.write(json.dumps(message, default=repr) + "\\n")
+    protocol.flush()
+
+def to_json(value):
+    return json.loads(json.dumps(value, default=lambda v: list(v) if isinstance(v, (set, frozenset)) else repr(v)))
+
+def describe(err):
+    return type(err).__name__ + ": " + str(err)
+
+namespace = {"__name__": "__solution__"}
+try:
+    with contextlib.redirect_stdout(out):
+        exec(compile(job["source"], "solution.py", "exec"), namespace)
+    solution = namespace.get(job["functionName"])
+    if not callable(solution) and isinstance(namespace.get("Solution"), type):
+        solution = getattr(namespace["Solution"](), job["functionName"], None)
+    if not callable(solution):
+        raise NameError("function " + job["functionName"] + " is not defined")
+except BaseException as err:
+    emit({"type": "done", "stdout": out.getvalue(), "error": describe(err)})
+    sys.exit(0)
+
+for case in job["cases"]:
+    try:
+        with contextlib.redirect_stdout(out):
+            actual = to_json(solution(*case["args"]))
+        emit({"type": "case", "actual": actual, "passed": actual == case["expected"]})
+    except BaseException as err:
+        emit({"type": "case", "passed": False, "error": describe(err)})
+
+emit({"type": "done", "stdout": out.getvalue()})
+`;
+
+let available: boolean | undefined;
+
+function hasPython(): boolean {
+  if (available === undefined) {
+    const check = spawnSync(PYTHON_PATH, ["--version"], { timeout: 2000 });
+    available = check.status === 0;
+  }
+  return available;
+}
+
+// Python has no permission model like Node's, so as the server's user it could
+// read its environment through /proc, the session store and .env files, and
+// reach the network. It only runs when EXECUTE_PYTHON=1 and the harness is
+// sandboxed by EXECUTE_SANDBOX_COMMAND or an EXECUTE_UID of its own.
+function isEnabled(): boolean {
+  return process.env.EXECUTE_PYTHON === "1" && isSandboxed() && hasPython();
+}
+
+export const pythonRuntime: CodeRuntime = {
+  id: "python",
+  label: "Python",
+  languages: ["python"],
+  isAvailable: isEnabled,
+
+  // Isolated mode (-I) ignores PYTHON* variables and the user's site-packages
+  run(source, _language, tests, { timeoutMs, memoryMb, signal }) {
+    return runHarness(
+      PYTHON_PATH,
+      ["-I", "-c", HARNESS],
+      { source, functionName: tests.functionName, cases: tests.cases, memoryMb, timeoutMs },
+      tests,
+      {
+        timeoutMs,
+        memoryMb,
+        signal,
+        timeLimitMs: timeoutMs,
+        requireSandbox: true,
+        describeExit: (stderr) => {
+          const lastLine = stderr.trim().split("\n").pop();
+          return lastLine?.startsWith("MemoryError")
+            ? `Memory limit of ${memoryMb} MB exceeded`
+            : lastLine || "The program exited before finishing";
+        },
+      }
+    );
+  },
+};
@@ -0,0 +1,64 @@
+// Collects per-case results streamed back from a runner subprocess, so a
+// run cut short by the time or memory limit still reports what finished
+
+import type { ExecutionResult, TestCaseResult, TestSuite } from "@/types/execute";
+
+export const MAX_STDOUT_LENGTH = 4000;
+
+// Message protocol shared by the JavaScript and Python harnesses
+export type RunnerMessage =
+  | { type: "case"; actual?: unknown; passed: boolean; error?: string }
+  | { type: "done"; stdout: string; error?: string };
+
+export interface ResultCollector {
+  push: (message: RunnerMessage) => void;
+  // Result once the runner finished, or with the remaining cases failed by `error`
+  finish: (error?: string, timedOut?: boolean) => ExecutionResult;
+}
+
+export function createResultCollector(tests: TestSuite): ResultCollector {
+  const results: TestCaseResult[] = [];
+  let stdout = "";
+  let loadError: string | undefined;
+
+  return {
+    push(message) {
+      if (message.type === "done") {
+        stdout = message.stdout.slice(0, MAX_STDOUT_LENGTH);
+        loadError = message.error;
+        return;
+      }
+      const testCase = tests.cases[results.length];
+      if (!testCase) return;
+      results.push({
+        args: testCase.args,
+        expected: testCase.expected,
+        actual: message.actual,
+        passed: message.passed,
+        error: message.error,
+      });
+    },
+
+    finish(error, timedOut) {
+      const caseError = error ?? loadError ?? "Not run";
+      const all = tests.cases.map(
+        (testCase, i): TestCaseResult =>
+          results[i] ?? {
+            args: testCase.args,
+            expected: testCase.expected,
+            passed: false,
+            error: caseError,
+          }
+      );
+      return {
+        functionName: tests.functionName,
+        results: all,
+        passed: all.filter((r) => r.passed).length,
+        total: all.length,
+        stdout,
+        error: error ?? loadError,
+        timedOut: timedOut || undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createSession, getSession, saveTestSuite } from "@/lib/sessionStore";
+import type { ExecutionResult } from "@/types/execute";
+import { attachTestRuns, runSubmission } from "./submissions";
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "submissions-"));
+  process.env.SESSIONS_DB_PATH = path.join(dir, "sessions.json");
+});
+
+afterAll(async () => {
+  delete process.env.SESSIONS_DB_PATH;
+  await rm(dir, { recursive: true, force: true });
+});
+
+const code = { language: "javascript", source: "function add(a, b) { return a - b; }" };
+const forged: ExecutionResult = {
+  functionName: "add",
+  results: [],
+  passed: 2,
+  total: 2,
+  stdout: "",
+};
+
+describe("submissions", () => {
+  it("runs against the session's tests and replaces results the client sent", async () => {
+    const { id } = await createSession({});
+    await saveTestSuite(id, {
+      functionName: "add",
+      cases: [
+        { args: [1, 1], expected: 2 },
+        { args: [2, 0], expected: 2 },
+      ],
+    });
+
+    const result = await runSubmission((await getSession(id))!, code);
+    expect(result).toMatchObject({ passed: 1, total: 2 });
+
+    const { testRuns } = (await getSession(id))!;
+    const [message] = attachTestRuns(
+      [{ role: "user", content: "", code: { ...code, testResults: forged } }],
+      testRuns
+    );
+    expect(message.code?.testResults).toEqual(result);
+  });
+
+  it("drops client results for code the server never ran", async () => {
+    const session = await createSession({});
+    expect(await runSubmission(session, code)).toBeNull();
+
+    const [message] = attachTestRuns([{ role: "user", content: "", code: { ...code, testResults: forged } }]);
+    expect(message.code?.testResults).toBeUndefined();
+  });
+});
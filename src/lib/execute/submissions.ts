@@ -0,0 +1,47 @@
+// Code submissions are run here, against the test cases the interviewer gave,
+// so the interviewer and the scorecard never rely on results from the browser
+
+import { createHash } from "node:crypto";
+import { saveTestRun } from "@/lib/sessionStore";
+import type { ChatRequestMessage, CodeSubmission } from "@/types/chat";
+import type { ExecutionResult } from "@/types/execute";
+import type { InterviewSession } from "@/types/session";
+import { executionLimits, getRuntime, MAX_SOURCE_LENGTH, validateTestSuite } from "./index";
+
+// Identifies a submission's code in a session's test runs
+export function getSubmissionKey({ language, source }: CodeSubmission): string {
+  return createHash("sha256").update(`${language}\n${source}`).digest("hex");
+}
+
+// Run a submission against the session's latest test suite and record the
+// result, or return null when there are no tests or it can't run here
+export async function runSubmission(
+  session: InterviewSession,
+  code: CodeSubmission,
+  signal?: AbortSignal
+): Promise<ExecutionResult | null> {
+  const tests = session.testSuite;
+  const runtime = getRuntime(code.language);
+  if (!tests || !runtime || validateTestSuite(tests)) return null;
+  if (typeof code.source !== "string" || code.source.length > MAX_SOURCE_LENGTH) return null;
+
+  const result = await runtime.run(code.source, code.language, tests, {
+    ...executionLimits,
+    signal,
+  });
+  if (!signal?.aborted) await saveTestRun(session.id, getSubmissionKey(code), result);
+  return result;
+}
+
+// Replace whatever test results the client sent with the session's own runs
+export function attachTestRuns(
+  messages: ChatRequestMessage[],
+  testRuns: Record<string, ExecutionResult> = {}
+): ChatRequestMessage[] {
+  return messages.map((message) => {
+    if (!message.code) return message;
+    const { language, source } = message.code;
+    const testResults = testRuns[getSubmissionKey(message.code)];
+    return { ...message, code: { language, source, testResults } };
+  });
+}
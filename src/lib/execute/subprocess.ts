@@ -0,0 +1,116 @@
+import { spawn } from "node:child_process";
+import { tmpdir } from "node:os";
+import type { ExecutionResult, TestSuite } from "@/types/execute";
+import { createResultCollector } from "./results";
+import type { RunnerMessage } from "./results";
+import type { RunOptions } from "./types";
+
+// Account to run submissions as, e.g. a dedicated user with no home directory
+// and nothing readable beyond the runtime. Switching to it needs the server to
+// run as root; without it submissions run as the server's own user.
+function getSandboxIdentity(): { uid?: number; gid?: number } {
+  const uid = Number(process.env.EXECUTE_UID);
+  const gid = Number(process.env.EXECUTE_GID);
+  return {
+    uid: Number.isInteger(uid) ? uid : undefined,
+    gid: Number.isInteger(gid) ? gid : Number.isInteger(uid) ? uid : undefined,
+  };
+}
+
+// Command to run harnesses inside, e.g. a bwrap or nsjail invocation ending in
+// `--`, split on whitespace. It must pass stdin and stdout through.
+function getSandboxCommand(): string[] {
+  return (process.env.EXECUTE_SANDBOX_COMMAND || "").split(/\s+/).filter(Boolean);
+}
+
+// Whether submissions are kept from the server's files and environment, by a
+// sandbox command or by running as another user that isn't root
+export function isSandboxed(): boolean {
+  if (getSandboxCommand().length > 0) return true;
+  const { uid } = getSandboxIdentity();
+  return uid !== undefined && uid !== 0 && uid !== process.getuid?.();
+}
+
+export interface HarnessOptions extends RunOptions {
+  // Wall-clock limit for the whole run, after which the process is killed
+  timeLimitMs: number;
+  // Error for a process that exited early, from the tail of its stderr
+  describeExit: (stderr: string) => string;
+  // Refuse to run at all unless isSandboxed()
+  requireSandbox?: boolean;
+}
+
+// Run a harness that reads its job as JSON on stdin and prints one
+// RunnerMessage per line on stdout. Lines that aren't JSON are ignored. The
+// process gets an empty temp working directory and none of the server's
+// environment, so API keys in it never reach the submission.
+export function runHarness(
+  command: string,
+  args: string[],
+  job: object,
+  tests: TestSuite,
+  { timeLimitMs, describeExit, signal, requireSandbox }: HarnessOptions
+): Promise<ExecutionResult> {
+  const collector = createResultCollector(tests);
+  if (requireSandbox && !isSandboxed()) {
+    return Promise.resolve(collector.finish("Running this language needs a sandbox on the server"));
+  }
+
+  const [bin, ...prefix] = [...getSandboxCommand(), command];
+  const child = spawn(bin, [...prefix, ...args], {
+    cwd: tmpdir(),
+    env: { NODE_ENV: process.env.NODE_ENV, PATH: process.env.PATH },
+    stdio: ["pipe", "pipe", "pipe"],
+    ...getSandboxIdentity(),
+  });
+
+  return new Promise((resolve) => {
+    let settled = false;
+    let buffered = "";
+    let stderr = "";
+
+    const settle = (error?: string, timedOut?: boolean) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      child.kill("SIGKILL");
+      resolve(collector.finish(error, timedOut));
+    };
+
+    const timer = setTimeout(
+      () => settle(`Time limit of ${timeLimitMs / 1000}s exceeded`, true),
+      timeLimitMs
+    );
+    const onAbort = () => settle("Cancelled");
+    signal?.addEventListener("abort", onAbort);
+
+    child.stdout.setEncoding("utf8");
+    child.stdout.on("data", (chunk: string) => {
+      buffered += chunk;
+      const lines = buffered.split("\n");
+      buffered = lines.pop() ?? "";
+      for (const line of lines) {
+        let message: RunnerMessage;
+        try {
+          message = JSON.parse(line);
+        } catch {
+          // Written straight to the real stdout by the candidate's code
+          continue;
+        }
+        collector.push(message);
+        if (message.type === "done") settle();
+      }
+    });
+    child.stderr.setEncoding("utf8");
+    child.stderr.on("data", (chunk: string) => {
+      stderr = (stderr + chunk).slice(-2000);
+    });
+
+    child.on("error", (err) => settle(err.message));
+    child.on("close", () => settle(describeExit(stderr)));
+
+    child.stdin.on("error", () => {});
+    child.stdin.end(JSON.stringify(job));
+  });
+}
@@ -0,0 +1,27 @@
+import type { ExecutionResult, TestSuite } from "@/types/execute";
+
+export type RuntimeId = "node" | "python";
+
+export interface ExecutionLimits {
+  timeoutMs: number;
+  memoryMb: number;
+}
+
+export interface RunOptions extends ExecutionLimits {
+  signal?: AbortSignal;
+}
+
+// Common interface every code runtime implements
+export interface CodeRuntime {
+  id: RuntimeId;
+  label: string;
+  // Editor languages (see lib/code) this runtime can run
+  languages: string[];
+  isAvailable: () => boolean;
+  run: (
+    source: string,
+    language: string,
+    tests: TestSuite,
+    options: RunOptions
+  ) => Promise<ExecutionResult>;
+}
@@ -0,0 +1,28 @@
+// Languages an interview can be held in, as BCP 47 tags for the Web Speech APIs
+
+export type InterviewLanguage = "en-US" | "es-ES" | "de-DE" | "fr-FR" | "ja-JP";
+
+export const DEFAULT_LANGUAGE: InterviewLanguage = "en-US";
+
+export const languageOptions: {
+  code: InterviewLanguage;
+  // Shown in the UI, in the language itself
+  label: string;
+  // Used in prompts
+  englishName: string;
+}[] = [
+  { code: "en-US", label: "English", englishName: "English" },
+  { code: "es-ES", label: "Español", englishName: "Spanish" },
+  { code: "de-DE", label: "Deutsch", englishName: "German" },
+  { code: "fr-FR", label: "Français", englishName: "French" },
+  { code: "ja-JP", label: "日本語", englishName: "Japanese" },
+];
+
+export function getLanguageName(code?: string): string {
+  return languageOptions.find((l) => l.code === code)?.englishName || "English";
+}
+
+// ISO-639-1 part of the tag ("es-ES" -> "es"), as Whisper and Piper expect
+export function getBaseLanguage(code: string): string {
+  return code.split("-")[0].toLowerCase();
+}
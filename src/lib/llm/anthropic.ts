@@ -0,0 +1,108 @@
+import { createLineSplitter, createSSEParser } from "@/lib/sse";
+import type { ServerSentEvent } from "@/lib/sse";
+import type { LLMProvider, StreamChunk } from "./types";
+import { ensureOk, modelList, parseStreamJSON } from "./utils";
+
+const API_URL = "https://api.anthropic.com/v1/messages";
+
+function getModel() {
+  return process.env.ANTHROPIC_MODEL || "claude-3-haiku-20240307";
+}
+
+function getHeaders() {
+  return {
+    "Content-Type": "application/json",
+    "x-api-key": process.env.ANTHROPIC_API_KEY!,
+    "anthropic-version": "2023-06-01",
+  };
+}
+
+export const anthropicProvider: LLMProvider = {
+  id: "anthropic",
+  label: "Anthropic",
+  envKey: "ANTHROPIC_API_KEY",
+
+  isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+
+  defaultModel: getModel,
+
+  listModels: async () =>
+    modelList(getModel(), process.env.ANTHROPIC_MODELS, [
+      "claude-3-haiku-20240307",
+      "claude-3-5-haiku-latest",
+      "claude-3-5-sonnet-latest",
+    ]),
+
+  async streamChat(messages, systemPrompt, options = {}) {
+    const anthropicMessages = messages.map((msg) => ({
+      role: msg.role === "assistant" ? "assistant" : "user",
+      content: msg.content,
+    }));
+
+    const response = await fetch(API_URL, {
+      method: "POST",
+      headers: getHeaders(),
+      signal: options.signal,
+      body: JSON.stringify({
+        model: options.model || getModel(),
+        max_tokens: options.maxTokens ?? 1024,
+        temperature: options.temperature,
+        system: systemPrompt,
+        messages: anthropicMessages,
+        stream: true,
+      }),
+    });
+
+    await ensureOk(response, "Anthropic");
+
+    let inputTokens: number | undefined;
+    const transformStream = new TransformStream<ServerSentEvent, StreamChunk>({
+      transform({ data }, controller) {
+        const parsed = parseStreamJSON(data, "Anthropic");
+        if (parsed.type === "content_block_delta") {
+          const content = parsed.delta?.text;
+          if (content) controller.enqueue({ type: "token", text: content });
+        } else if (parsed.type === "message_start") {
+          inputTokens = parsed.message?.usage?.input_tokens;
+        } else if (parsed.type === "message_delta" && parsed.usage) {
+          controller.enqueue({
+            type: "usage",
+            usage: { inputTokens, outputTokens: parsed.usage.output_tokens },
+          });
+        } else if (parsed.type === "error") {
+          throw new Error(`Anthropic stream error: ${parsed.error?.message || "unknown"}`);
+        }
+      },
+    });
+
+    return response
+      .body!.pipeThrough(createLineSplitter())
+      .pipeThrough(createSSEParser())
+      .pipeThrough(transformStream);
+  },
+
+  async complete(prompt, options = {}) {
+    const response = await fetch(API_URL, {
+      method: "POST",
+      headers: getHeaders(),
+      signal: options.signal,
+      body: JSON.stringify({
+        model: options.model || getModel(),
+        max_tokens: options.maxTokens ?? 1024,
+        temperature: options.temperature,
+        messages: [{ role: "user", content: prompt }],
+      }),
+    });
+
+    await ensureOk(response, "Anthropic");
+
+    const data = await response.json();
+    const content = data.content?.[0]?.text;
+
+    if (!content) {
+      throw new Error("No content in Anthropic response");
+    }
+
+    return content;
+  },
+};
@@ -0,0 +1,155 @@
+import { providers } from "./registry";
+import type { GenerationOptions, LLMMessage, LLMProvider, StreamChunk } from "./types";
+import { ProviderError } from "./utils";
+
+export interface ChainEntry {
+  provider: LLMProvider;
+  model?: string;
+}
+
+function getMaxRetries() {
+  return Number(process.env.LLM_MAX_RETRIES ?? 2);
+}
+
+function getRetryDelay() {
+  return Number(process.env.LLM_RETRY_DELAY_MS ?? 500);
+}
+
+// Only availability problems are worth retrying or failing over: rate limits,
+// server errors, network failures (fetch rejects with a TypeError) and timeouts.
+// A bad request, auth or content-policy error would fail the same way anywhere.
+function isRetryable(error: unknown): boolean {
+  if (error instanceof ProviderError) return error.retryable;
+  if (error instanceof DOMException) return error.name === "TimeoutError";
+  return error instanceof TypeError;
+}
+
+// Backoff delay that ends early with an AbortError when the signal fires
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Build the providers to try: the selected one first, then the rest of the
+// configured providers in LLM_PROVIDER_ORDER (or registration) order.
+// A model override only applies to the selected provider.
+export function getFailoverChain(primary: ChainEntry): ChainEntry[] {
+  const order = process.env.LLM_PROVIDER_ORDER?.split(",").map((id) => id.trim());
+  const ordered = order
+    ? order
+        .map((id) => providers.find((p) => p.id === id))
+        .filter((p): p is LLMProvider => !!p)
+    : providers;
+
+  const fallbacks = ordered
+    .filter((p) => p.id !== primary.provider.id && p.isConfigured())
+    .map((provider) => ({ provider }));
+
+  return [primary, ...fallbacks];
+}
+
+// Run an operation against each provider in turn. Retryable failures are
+// retried with exponential backoff before moving on to the next provider;
+// any other error, or a cancelled request, is thrown straight away.
+async function withFailover<T>(
+  chain: ChainEntry[],
+  run: (entry: ChainEntry) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  const maxRetries = getMaxRetries();
+  const baseDelay = getRetryDelay();
+  let lastError: unknown;
+
+  for (const entry of chain) {
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        return await run(entry);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        lastError = error;
+        const message = error instanceof Error ? error.message : error;
+        console.warn(`${entry.provider.label} attempt ${attempt + 1} failed:`, message);
+
+        if (!isRetryable(error)) throw error;
+        if (attempt === maxRetries) break;
+        await sleep(baseDelay * 2 ** attempt, signal);
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+// Wait for the first token so failures surface before anything reaches the client.
+// Once a token has been read the stream is committed to this provider.
+async function primeStream(stream: ReadableStream<StreamChunk>): Promise<ReadableStream<StreamChunk>> {
+  const reader = stream.getReader();
+  const buffered: StreamChunk[] = [];
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return new ReadableStream<StreamChunk>({
+        start(controller) {
+          buffered.forEach((chunk) => controller.enqueue(chunk));
+          controller.close();
+        },
+      });
+    }
+    buffered.push(value);
+    if (value.type === "token") break;
+  }
+
+  return new ReadableStream<StreamChunk>({
+    start(controller) {
+      buffered.forEach((chunk) => controller.enqueue(chunk));
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+export async function streamChatWithFailover(
+  chain: ChainEntry[],
+  messages: LLMMessage[],
+  systemPrompt: string,
+  options: GenerationOptions = {}
+): Promise<{ stream: ReadableStream<StreamChunk>; entry: ChainEntry }> {
+  return withFailover(chain, async (entry) => {
+    const stream = await entry.provider.streamChat(messages, systemPrompt, {
+      ...options,
+      model: entry.model,
+    });
+    return { stream: await primeStream(stream), entry };
+  }, options.signal);
+}
+
+export async function completeWithFailover(
+  chain: ChainEntry[],
+  prompt: string,
+  options: GenerationOptions = {}
+): Promise<string> {
+  return withFailover(
+    chain,
+    ({ provider, model }) => provider.complete(prompt, { ...options, model }),
+    options.signal
+  );
+}
@@ -0,0 +1,74 @@
+import type { GenerationOptions, LLMMessage, LLMProvider } from "./types";
+import { ensureOk, modelList, textStream } from "./utils";
+
+function getModel() {
+  return process.env.HUGGINGFACE_MODEL || "mistralai/Mixtral-8x7B-Instruct-v0.1";
+}
+
+// Format messages for Hugging Face prompt
+function formatMessagesAsPrompt(messages: LLMMessage[], systemPrompt: string) {
+  let prompt = `<s>[INST] ${systemPrompt}\n\n`;
+  messages.forEach((msg, i) => {
+    if (msg.role === "user") {
+      prompt += `[INST] ${msg.content} [/INST]`;
+    } else if (msg.role === "assistant") {
+      prompt += ` ${msg.content}</s>`;
+      if (i < messages.length - 1) prompt += "<s>";
+    }
+  });
+  return prompt;
+}
+
+// The inference endpoint does not stream, so both modes share one request
+async function generate(inputs: string, options: GenerationOptions): Promise<string> {
+  const model = options.model || getModel();
+  const response = await fetch(`https://router.huggingface.co/hf-inference/models/${model}`, {
+    method: "POST",
+    signal: options.signal,
+    headers: {
+      Authorization: `Bearer ${process.env.HUGGINGFACE_API_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      inputs,
+      parameters: {
+        max_new_tokens: options.maxTokens ?? 1024,
+        temperature: options.temperature ?? 0.7,
+        return_full_text: false,
+      },
+    }),
+  });
+
+  await ensureOk(response, "Hugging Face");
+
+  const result = await response.json();
+  return (Array.isArray(result) ? result[0]?.generated_text : result.generated_text) || "";
+}
+
+export const huggingfaceProvider: LLMProvider = {
+  id: "huggingface",
+  label: "Hugging Face",
+  envKey: "HUGGINGFACE_API_KEY",
+
+  isConfigured: () => !!process.env.HUGGINGFACE_API_KEY,
+
+  defaultModel: getModel,
+
+  listModels: async () => modelList(getModel(), process.env.HUGGINGFACE_MODELS, []),
+
+  async streamChat(messages, systemPrompt, options = {}) {
+    const prompt = formatMessagesAsPrompt(messages, systemPrompt);
+    const text = await generate(prompt, options);
+    return textStream(text);
+  },
+
+  async complete(prompt, options = {}) {
+    const content = await generate(`<s>[INST] ${prompt} [/INST]`, options);
+
+    if (!content) {
+      throw new Error("No content in Hugging Face response");
+    }
+
+    return content;
+  },
+};
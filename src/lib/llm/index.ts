@@ -0,0 +1,77 @@
+import { providers } from "./registry";
+import type { LLMProvider, ProviderId, ProviderInfo } from "./types";
+
+export type {
+  GenerationOptions,
+  LLMMessage,
+  LLMProvider,
+  ProviderId,
+  ProviderInfo,
+  StreamChunk,
+  TokenUsage,
+} from "./types";
+export type { ChainEntry } from "./failover";
+
+export { providers };
+export { completeWithFailover, getFailoverChain, streamChatWithFailover } from "./failover";
+
+export function getProvider(id: ProviderId): LLMProvider {
+  return providers.find((p) => p.id === id)!;
+}
+
+// Pick the first provider that has its API key configured
+export function detectProvider(): LLMProvider | null {
+  return providers.find((p) => p.isConfigured()) || null;
+}
+
+export function getMissingProviderError(): string {
+  const keys = providers.map((p) => p.envKey);
+  return `No API keys configured. Set ${keys.slice(0, -1).join(", ")}, or ${keys[keys.length - 1]}`;
+}
+
+// Describe every configured provider with the models a session may pick
+export async function describeProviders(): Promise<ProviderInfo[]> {
+  const configured = providers.filter((p) => p.isConfigured());
+  return Promise.all(
+    configured.map(async (p) => ({
+      id: p.id,
+      label: p.label,
+      defaultModel: p.defaultModel(),
+      models: await p.listModels(),
+    }))
+  );
+}
+
+type ProviderSelection =
+  | { provider: LLMProvider; model?: string; error?: undefined }
+  | { provider?: undefined; error: string; status: number };
+
+// Check a session's provider and model choice against what is configured.
+// Without a choice, falls back to the detected default provider.
+export async function resolveProvider(
+  providerId?: string,
+  model?: string
+): Promise<ProviderSelection> {
+  if (!providerId) {
+    const provider = detectProvider();
+    if (!provider) return { error: getMissingProviderError(), status: 500 };
+    if (model) {
+      return { error: "A model can only be chosen together with a provider", status: 400 };
+    }
+    return { provider };
+  }
+
+  const provider = providers.find((p) => p.id === providerId);
+  if (!provider) {
+    return { error: `Unknown provider: ${providerId}`, status: 400 };
+  }
+  if (!provider.isConfigured()) {
+    return { error: `${provider.label} is not configured. Set ${provider.envKey}`, status: 400 };
+  }
+
+  if (model && !(await provider.listModels()).includes(model)) {
+    return { error: `Model ${model} is not available for ${provider.label}`, status: 400 };
+  }
+
+  return { provider, model };
+}
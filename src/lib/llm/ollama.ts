@@ -0,0 +1,136 @@
+import { createLineSplitter } from "@/lib/sse";
+import type { LLMMessage, LLMProvider, StreamChunk } from "./types";
+import { ensureOk, parseStreamJSON } from "./utils";
+
+function getModel() {
+  return process.env.OLLAMA_MODEL || "llama3.2:latest";
+}
+
+// Base URL of the Ollama server: OLLAMA_HOST, else the origin of OLLAMA_API_URL, else local
+function getHost() {
+  if (process.env.OLLAMA_HOST) return process.env.OLLAMA_HOST.replace(/\/+$/, "");
+  if (process.env.OLLAMA_API_URL) return new URL(process.env.OLLAMA_API_URL).origin;
+  return "http://localhost:11434";
+}
+
+// Use local if no API URL is set, otherwise the configured (cloud) endpoint
+function getUrl() {
+  return process.env.OLLAMA_API_URL || `${getHost()}/v1/completions`;
+}
+
+function getHeaders() {
+  const apiKey = process.env.OLLAMA_API_KEY; // optional
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+  return headers;
+}
+
+// Combine system prompt + messages into one text prompt
+function formatMessagesAsPrompt(messages: LLMMessage[], systemPrompt: string) {
+  return [
+    `System: ${systemPrompt}`,
+    ...messages.map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`),
+  ].join("\n");
+}
+
+export const ollamaProvider: LLMProvider = {
+  id: "ollama",
+  label: "Ollama",
+  envKey: "OLLAMA_HOST",
+
+  // Like the other local servers, Ollama is only used once it is configured: a
+  // keyless local setup sets OLLAMA_HOST=http://localhost:11434. Defaulting to
+  // localhost would put it ahead of Hugging Face for everyone.
+  isConfigured: () =>
+    !!(process.env.OLLAMA_API_KEY || process.env.OLLAMA_API_URL || process.env.OLLAMA_HOST),
+
+  defaultModel: getModel,
+
+  // Ask the server which models are pulled, falling back to the configured one
+  async listModels() {
+    try {
+      const response = await fetch(`${getHost()}/api/tags`, {
+        headers: getHeaders(),
+        signal: AbortSignal.timeout(2000),
+      });
+      if (!response.ok) return [getModel()];
+      const data = await response.json();
+      const names: string[] = (data.models || []).map((m: { name: string }) => m.name);
+      return Array.from(new Set([getModel(), ...names]));
+    } catch {
+      return [getModel()];
+    }
+  },
+
+  async streamChat(messages, systemPrompt, options = {}) {
+    const response = await fetch(getUrl(), {
+      method: "POST",
+      headers: getHeaders(),
+      signal: options.signal,
+      body: JSON.stringify({
+        model: options.model || getModel(),
+        prompt: formatMessagesAsPrompt(messages, systemPrompt),
+        max_tokens: options.maxTokens ?? 1024,
+        temperature: options.temperature ?? 0.7,
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+    });
+
+    await ensureOk(response, "Ollama");
+
+    // The OpenAI-compatible endpoint sends SSE "data:" lines, the native API
+    // sends bare JSON lines, so accept both
+    const transformStream = new TransformStream<string, StreamChunk>({
+      transform(line, controller) {
+        const data = line.startsWith("data:") ? line.slice(5).trim() : line.trim();
+        if (!data || data === "[DONE]") return;
+
+        const parsed = parseStreamJSON(data, "Ollama");
+        const content = parsed.choices?.[0]?.text ?? parsed.response;
+        if (content) controller.enqueue({ type: "token", text: content });
+        if (parsed.usage) {
+          controller.enqueue({
+            type: "usage",
+            usage: {
+              inputTokens: parsed.usage.prompt_tokens,
+              outputTokens: parsed.usage.completion_tokens,
+            },
+          });
+        }
+      },
+    });
+
+    return response.body!.pipeThrough(createLineSplitter()).pipeThrough(transformStream);
+  },
+
+  // Uses the native generate API, which can constrain output to JSON
+  async complete(prompt, options = {}) {
+    const response = await fetch(`${getHost()}/api/generate`, {
+      method: "POST",
+      headers: getHeaders(),
+      signal: options.signal,
+      body: JSON.stringify({
+        model: options.model || getModel(),
+        prompt,
+        stream: false,
+        format: options.json ? "json" : undefined,
+        options: {
+          num_predict: options.maxTokens ?? 1024,
+          temperature: options.temperature ?? 0.7,
+        },
+      }),
+    });
+
+    await ensureOk(response, "Ollama");
+
+    const data = await response.json();
+    const content = data.response;
+
+    if (!content) {
+      throw new Error("No content in Ollama response");
+    }
+
+    return content;
+  },
+};
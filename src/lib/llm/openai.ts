@@ -0,0 +1,99 @@
+import { createLineSplitter, createSSEParser } from "@/lib/sse";
+import type { ServerSentEvent } from "@/lib/sse";
+import type { LLMProvider, StreamChunk } from "./types";
+import { ensureOk, modelList, parseStreamJSON } from "./utils";
+
+const API_URL = "https://api.openai.com/v1/chat/completions";
+
+function getModel() {
+  return process.env.OPENAI_MODEL || "gpt-4o-mini";
+}
+
+function getHeaders() {
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
+  };
+}
+
+export const openaiProvider: LLMProvider = {
+  id: "openai",
+  label: "OpenAI",
+  envKey: "OPENAI_API_KEY",
+
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+
+  defaultModel: getModel,
+
+  listModels: async () =>
+    modelList(getModel(), process.env.OPENAI_MODELS, ["gpt-4o-mini", "gpt-4o", "gpt-4.1-mini"]),
+
+  async streamChat(messages, systemPrompt, options = {}) {
+    const response = await fetch(API_URL, {
+      method: "POST",
+      headers: getHeaders(),
+      signal: options.signal,
+      body: JSON.stringify({
+        model: options.model || getModel(),
+        messages: [
+          { role: "system", content: systemPrompt },
+          ...messages.map(({ role, content }) => ({ role, content })),
+        ],
+        stream: true,
+        stream_options: { include_usage: true },
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.maxTokens ?? 1024,
+      }),
+    });
+
+    await ensureOk(response, "OpenAI");
+
+    const transformStream = new TransformStream<ServerSentEvent, StreamChunk>({
+      transform({ data }, controller) {
+        if (data === "[DONE]") return;
+        const parsed = parseStreamJSON(data, "OpenAI");
+        const content = parsed.choices?.[0]?.delta?.content;
+        if (content) controller.enqueue({ type: "token", text: content });
+        if (parsed.usage) {
+          controller.enqueue({
+            type: "usage",
+            usage: {
+              inputTokens: parsed.usage.prompt_tokens,
+              outputTokens: parsed.usage.completion_tokens,
+            },
+          });
+        }
+      },
+    });
+
+    return response
+      .body!.pipeThrough(createLineSplitter())
+      .pipeThrough(createSSEParser())
+      .pipeThrough(transformStream);
+  },
+
+  async complete(prompt, options = {}) {
+    const response = await fetch(API_URL, {
+      method: "POST",
+      headers: getHeaders(),
+      signal: options.signal,
+      body: JSON.stringify({
+        model: options.model || getModel(),
+        messages: [{ role: "user", content: prompt }],
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.maxTokens ?? 1024,
+      }),
+    });
+
+    await ensureOk(response, "OpenAI");
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+      throw new Error("No content in OpenAI response");
+    }
+
+    return content;
+  },
+};
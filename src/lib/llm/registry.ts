@@ -0,0 +1,13 @@
+import { openaiProvider } from "./openai";
+import { anthropicProvider } from "./anthropic";
+import { ollamaProvider } from "./ollama";
+import { huggingfaceProvider } from "./huggingface";
+import type { LLMProvider } from "./types";
+
+// Registered adapters, in detection priority order
+export const providers: LLMProvider[] = [
+  openaiProvider,
+  anthropicProvider,
+  ollamaProvider, // check Ollama before Hugging Face
+  huggingfaceProvider,
+];
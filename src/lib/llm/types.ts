@@ -0,0 +1,53 @@
+export type ProviderId = "openai" | "anthropic" | "ollama" | "huggingface";
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface GenerationOptions {
+  // Overrides the provider's default model
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  // Ask for a JSON object response where the vendor supports it
+  json?: boolean;
+  // Aborts the upstream request, e.g. when the client disconnects
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+// Items yielded by a chat stream: reply text, or token usage reported by the vendor
+export type StreamChunk = { type: "token"; text: string } | { type: "usage"; usage: TokenUsage };
+
+// Common interface every vendor adapter implements
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  // Env var that enables this provider, used in configuration errors
+  envKey: string;
+  isConfigured: () => boolean;
+  defaultModel: () => string;
+  // Models a session may pick, including the default
+  listModels: () => Promise<string[]>;
+  // Streams the assistant reply as token and usage chunks
+  streamChat: (
+    messages: LLMMessage[],
+    systemPrompt: string,
+    options?: GenerationOptions
+  ) => Promise<ReadableStream<StreamChunk>>;
+  // One-shot completion for a single prompt, returns the full text
+  complete: (prompt: string, options?: GenerationOptions) => Promise<string>;
+}
+
+// Public description of a configured provider, returned by GET /api/chat
+export interface ProviderInfo {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  models: string[];
+}
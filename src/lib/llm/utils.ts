@@ -0,0 +1,53 @@
+import type { StreamChunk } from "./types";
+
+// Error raised for a non-2xx vendor response, carrying the HTTP status
+export class ProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+  }
+
+  // Rate limits and server errors are worth retrying
+  get retryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+// Throw a consistent error when a vendor API responds with a non-2xx status
+export async function ensureOk(response: Response, label: string): Promise<void> {
+  if (!response.ok) {
+    const error = await response.text();
+    throw new ProviderError(`${label} API error: ${response.status} - ${error}`, response.status);
+  }
+}
+
+// Wrap an already complete text in a single-chunk stream
+export function textStream(text: string): ReadableStream<StreamChunk> {
+  return new ReadableStream<StreamChunk>({
+    start(controller) {
+      if (text) controller.enqueue({ type: "token", text });
+      controller.close();
+    },
+  });
+}
+
+// Build a model list from a comma-separated env override or known defaults
+export function modelList(defaultModel: string, envList: string | undefined, known: string[]): string[] {
+  const models = envList
+    ? envList.split(",").map((m) => m.trim()).filter(Boolean)
+    : known;
+  return Array.from(new Set([defaultModel, ...models]));
+}
+
+// Parse one JSON payload from a vendor stream. Lines arrive whole, so a parse
+// failure means the vendor sent something unexpected rather than a split chunk.
+export function parseStreamJSON(data: string, label: string) {
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw new Error(`${label} stream sent invalid JSON: ${data.slice(0, 200)}`);
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { answerQuestion, formatQuizAnswer, getQuizScores, saveQuestion } from "./index";
+
+const ask = () =>
+  saveQuestion({
+    topic: "Big O",
+    question: "Binary search runs in?",
+    options: ["O(n)", "O(log n)"],
+    answerIndex: 1,
+    explanation: "It halves the range each step.",
+  });
+
+describe("quiz bank", () => {
+  it("grades only the first answer to a question", () => {
+    const { id } = ask();
+    expect(answerQuestion(id, 0)).toMatchObject({ status: "graded", grade: { correct: false } });
+    expect(answerQuestion(id, 1)).toEqual({ status: "answered" });
+    expect(answerQuestion(id, 2)).toEqual({ status: "invalid" });
+    expect(answerQuestion("unknown", 1)).toEqual({ status: "expired" });
+  });
+
+  it("reports the recorded answer whatever choice the client sends", () => {
+    const { id } = ask();
+    answerQuestion(id, 0);
+    const claimed = { quizAnswer: { questionId: id, choice: 1 } };
+
+    expect(formatQuizAnswer(claimed.quizAnswer)).toBe("[Quiz answer: incorrect] A) O(n)");
+    expect(getQuizScores([claimed, claimed])).toEqual([{ topic: "Big O", correct: 0, total: 1 }]);
+  });
+
+  it("leaves unanswered questions ungraded", () => {
+    const { id } = ask();
+    expect(formatQuizAnswer({ questionId: id, choice: 1 })).toBe("[Quiz answer: ungraded]");
+    expect(getQuizScores([{ quizAnswer: { questionId: id, choice: 1 } }])).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+// In-memory answer key for the questions the interviewer has asked, so grading
+// happens on the server and the correct option is only revealed once answered.
+// The first answer to each question is recorded and is the only one that counts.
+
+import { randomUUID } from "node:crypto";
+import type { QuizGrade, QuizQuestion } from "@/types/quiz";
+
+const QUESTION_TTL_MS = 6 * 60 * 60 * 1000;
+
+// Question as the interviewer wrote it, including the answer
+export interface QuizPayload {
+  topic: string;
+  question: string;
+  options: string[];
+  answerIndex: number;
+  explanation: string;
+}
+
+interface StoredQuestion extends QuizPayload {
+  createdAt: number;
+  answer?: QuizGrade;
+}
+
+export type AnswerOutcome =
+  | { status: "graded"; grade: QuizGrade }
+  | { status: "answered" }
+  | { status: "expired" }
+  | { status: "invalid" };
+
+const questions = new Map<string, StoredQuestion>();
+
+function evictStale(now: number) {
+  for (const [id, question] of questions) {
+    if (now - question.createdAt > QUESTION_TTL_MS) questions.delete(id);
+  }
+}
+
+// Store the answer key and return the question without it
+export function saveQuestion(payload: QuizPayload): QuizQuestion {
+  const now = Date.now();
+  evictStale(now);
+
+  const id = randomUUID();
+  questions.set(id, { ...payload, createdAt: now });
+  return { id, topic: payload.topic, question: payload.question, options: payload.options };
+}
+
+export function getQuestion(id: string): QuizPayload | null {
+  return questions.get(id) ?? null;
+}
+
+// Grade and record a choice. A question that already has an answer can't be
+// answered again, so the answer key can't be probed one option at a time.
+export function answerQuestion(id: string, choice: number): AnswerOutcome {
+  const question = questions.get(id);
+  if (!question) return { status: "expired" };
+  if (choice >= question.options.length) return { status: "invalid" };
+  if (question.answer) return { status: "answered" };
+
+  question.answer = {
+    choice,
+    correct: choice === question.answerIndex,
+    correctIndex: question.answerIndex,
+    explanation: question.explanation,
+  };
+  return { status: "graded", grade: question.answer };
+}
+
+// Grade of the recorded answer, or null if there is none or the question expired
+export function getRecordedGrade(id: string): QuizGrade | null {
+  return questions.get(id)?.answer ?? null;
+}
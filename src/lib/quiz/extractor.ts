@@ -0,0 +1,108 @@
+// Pulls fenced ```quiz blocks out of streamed interviewer text. Text that could
+// be the start of a fence is held back until the next chunk decides it.
+
+import type { QuizPayload } from "./bank";
+
+const FENCE_OPEN = "```quiz";
+const FENCE_CLOSE = "```";
+const LETTERS = "ABCDEFGH";
+
+// Accepts the answer as a letter ("B"), an index, or the option text
+export function parseQuizPayload(json: string): QuizPayload | null {
+  try {
+    const parsed = JSON.parse(json);
+    const options = Array.isArray(parsed?.options)
+      ? parsed.options.filter((o: unknown): o is string => typeof o === "string")
+      : [];
+    if (typeof parsed?.question !== "string" || options.length < 2) return null;
+
+    const answer = parsed.answer;
+    let answerIndex = -1;
+    if (typeof answer === "number") answerIndex = answer;
+    else if (typeof answer === "string" && /^[A-H]$/i.test(answer.trim())) {
+      answerIndex = LETTERS.indexOf(answer.trim().toUpperCase());
+    } else if (typeof answer === "string") answerIndex = options.indexOf(answer);
+    if (answerIndex < 0 || answerIndex >= options.length) return null;
+
+    return {
+      topic: typeof parsed.topic === "string" && parsed.topic.trim() ? parsed.topic.trim() : "General",
+      question: parsed.question,
+      options,
+      answerIndex,
+      explanation: typeof parsed.explanation === "string" ? parsed.explanation : "",
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function getOptionLetter(index: number): string {
+  return LETTERS[index] ?? String(index + 1);
+}
+
+// The block as the interviewer originally wrote it, for replaying the conversation
+export function formatQuizBlock({ topic, question, options, answerIndex, explanation }: QuizPayload): string {
+  const payload = { topic, question, options, answer: getOptionLetter(answerIndex), explanation };
+  return `${FENCE_OPEN}\n${JSON.stringify(payload)}\n${FENCE_CLOSE}`;
+}
+
+export interface QuizExtractor {
+  // Returns the text to pass on and any quizzes the chunk completed
+  push: (text: string) => { text: string; quizzes: QuizPayload[] };
+  flush: () => { text: string; quizzes: QuizPayload[] };
+}
+
+export function createQuizExtractor(): QuizExtractor {
+  let buffer = "";
+  let inBlock = false;
+
+  const drain = () => {
+    let text = "";
+    const quizzes: QuizPayload[] = [];
+
+    while (buffer) {
+      if (inBlock) {
+        const end = buffer.indexOf(FENCE_CLOSE);
+        if (end < 0) break;
+        const quiz = parseQuizPayload(buffer.slice(0, end));
+        if (quiz) quizzes.push(quiz);
+        buffer = buffer.slice(end + FENCE_CLOSE.length);
+        inBlock = false;
+        continue;
+      }
+
+      const start = buffer.indexOf(FENCE_OPEN);
+      if (start >= 0) {
+        text += buffer.slice(0, start);
+        buffer = buffer.slice(start + FENCE_OPEN.length);
+        inBlock = true;
+        continue;
+      }
+
+      // Keep back a trailing partial fence such as "``" or "```qu"
+      let keep = Math.min(FENCE_OPEN.length - 1, buffer.length);
+      while (keep > 0 && !buffer.endsWith(FENCE_OPEN.slice(0, keep))) keep--;
+      text += buffer.slice(0, buffer.length - keep);
+      buffer = buffer.slice(buffer.length - keep);
+      break;
+    }
+
+    return { text, quizzes };
+  };
+
+  return {
+    push(chunk) {
+      buffer += chunk;
+      return drain();
+    },
+
+    flush() {
+      const rest = inBlock
+        ? { text: "", quizzes: [parseQuizPayload(buffer)].filter((q): q is QuizPayload => !!q) }
+        : { text: buffer, quizzes: [] };
+      buffer = "";
+      inBlock = false;
+      return rest;
+    },
+  };
+}
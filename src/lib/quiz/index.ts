@@ -0,0 +1,48 @@
+import type { StreamChunk } from "@/lib/llm";
+import type { QuizAnswer, QuizQuestion } from "@/types/quiz";
+import { getQuestion, getRecordedGrade, saveQuestion } from "./bank";
+import { createQuizExtractor, getOptionLetter } from "./extractor";
+
+export { answerQuestion, getQuestion, getRecordedGrade, saveQuestion } from "./bank";
+export type { AnswerOutcome, QuizPayload } from "./bank";
+export { createQuizExtractor, formatQuizBlock, getOptionLetter, parseQuizPayload } from "./extractor";
+export { getQuizScores } from "./scores";
+
+export type QuizStreamChunk = StreamChunk | { type: "quiz"; quiz: QuizQuestion };
+
+// Replace quiz blocks in an LLM stream with quiz chunks that carry no answer
+export function extractQuizzes(source: ReadableStream<StreamChunk>): ReadableStream<QuizStreamChunk> {
+  const extractor = createQuizExtractor();
+
+  const emit = (
+    { text, quizzes }: ReturnType<typeof extractor.push>,
+    controller: TransformStreamDefaultController<QuizStreamChunk>
+  ) => {
+    if (text) controller.enqueue({ type: "token", text });
+    for (const quiz of quizzes) controller.enqueue({ type: "quiz", quiz: saveQuestion(quiz) });
+  };
+
+  return source.pipeThrough(
+    new TransformStream<StreamChunk, QuizStreamChunk>({
+      transform(chunk, controller) {
+        if (chunk.type === "token") emit(extractor.push(chunk.text), controller);
+        else controller.enqueue(chunk);
+      },
+      flush(controller) {
+        emit(extractor.flush(), controller);
+      },
+    })
+  );
+}
+
+// A quiz answer in a transcript, taken from the answer recorded on the server
+// since the client's word can't be trusted. Questions never answered through
+// /api/quiz, or since expired, show as ungraded without a choice.
+export function formatQuizAnswer({ questionId }: QuizAnswer): string {
+  const grade = getRecordedGrade(questionId);
+  const question = getQuestion(questionId);
+  if (!grade || !question) return "[Quiz answer: ungraded]";
+
+  const result = grade.correct ? "correct" : "incorrect";
+  return `[Quiz answer: ${result}] ${getOptionLetter(grade.choice)}) ${question.options[grade.choice]}`;
+}
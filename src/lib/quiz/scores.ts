@@ -0,0 +1,23 @@
+import type { QuizAnswer, QuizTopicScore } from "@/types/quiz";
+import { getQuestion, getRecordedGrade } from "./bank";
+
+// Per-topic quiz score over the questions answered in a transcript, in the
+// order topics first came up. Each counts with the grade recorded for its first
+// answer, whatever choice the client claims, and expired questions are left out.
+export function getQuizScores(messages: { quizAnswer?: QuizAnswer }[]): QuizTopicScore[] {
+  const scores = new Map<string, QuizTopicScore>();
+  const answered = new Set<string>();
+  for (const { quizAnswer } of messages) {
+    if (!quizAnswer || answered.has(quizAnswer.questionId)) continue;
+    const question = getQuestion(quizAnswer.questionId);
+    const grade = getRecordedGrade(quizAnswer.questionId);
+    if (!question || !grade) continue;
+
+    answered.add(quizAnswer.questionId);
+    const score = scores.get(question.topic) ?? { topic: question.topic, correct: 0, total: 0 };
+    score.total++;
+    if (grade.correct) score.correct++;
+    scores.set(question.topic, score);
+  }
+  return [...scores.values()];
+}
@@ -0,0 +1,171 @@
+// Scoring rubrics per interview type. The scorecard scores one dimension per
+// entry, merged across the selected types in order.
+
+import type { InterviewType } from "@/store/useInterviewStore";
+import type { ScoreDimension, ScorecardResponse } from "@/app/api/scorecard/route";
+
+export interface RubricDimension {
+  // Also the dimension's key in the scorecard JSON
+  id: string;
+  label: string;
+  // What the assessor should look for
+  description: string;
+  // Measured evidence attached to this dimension: automated test results or
+  // the candidate's spoken delivery
+  evidence?: "tests" | "delivery";
+}
+
+const communication: RubricDimension = {
+  id: "communication",
+  label: "Communication",
+  description: "Clarity, structure and conciseness of answers, and explaining thinking out loud",
+  evidence: "delivery",
+};
+
+export const rubrics: Record<InterviewType, RubricDimension[]> = {
+  coding: [
+    {
+      id: "problem-solving",
+      label: "Problem Solving",
+      description: "Clarifying requirements, breaking the problem down and reaching a working approach",
+    },
+    {
+      id: "correctness",
+      label: "Correctness",
+      description: "Whether the code works, including edge cases",
+      evidence: "tests",
+    },
+    {
+      id: "complexity",
+      label: "Complexity Analysis",
+      description: "Reasoning about time and space complexity and the trade-offs of alternatives",
+    },
+    {
+      id: "code-quality",
+      label: "Code Quality",
+      description: "Readable naming and structure, idiomatic use of the language",
+    },
+    communication,
+  ],
+  "multiple-choice": [
+    {
+      id: "technical-knowledge",
+      label: "Technical Knowledge",
+      description: "Accuracy across the quiz topics",
+    },
+    {
+      id: "reasoning",
+      label: "Reasoning",
+      description: "Explaining why an answer is right rather than guessing",
+    },
+  ],
+  behavioral: [
+    {
+      id: "star",
+      label: "STAR Completeness",
+      description: "Answers cover the Situation, Task, Action and a concrete Result",
+    },
+    {
+      id: "ownership",
+      label: "Ownership & Impact",
+      description: "The candidate's own contribution and its measurable impact",
+    },
+    {
+      id: "self-awareness",
+      label: "Self-Awareness",
+      description: "Reflecting honestly on mistakes and what was learned",
+    },
+    communication,
+  ],
+  technical: [
+    {
+      id: "technical-depth",
+      label: "Technical Depth",
+      description: "Accuracy and depth of explanations, beyond definitions",
+    },
+    {
+      id: "trade-offs",
+      label: "Trade-offs",
+      description: "Weighing alternatives and justifying design choices",
+    },
+    communication,
+  ],
+  hr: [
+    {
+      id: "culture-fit",
+      label: "Values & Culture Fit",
+      description: "Alignment with the team's ways of working and values",
+    },
+    {
+      id: "motivation",
+      label: "Motivation",
+      description: "Clear reasons for wanting the role and coherent career goals",
+    },
+    {
+      id: "professionalism",
+      label: "Professionalism",
+      description: "Composure, honesty and tact with sensitive questions",
+    },
+    communication,
+  ],
+  "hiring-manager": [
+    {
+      id: "leadership",
+      label: "Leadership",
+      description: "Leading people and projects, and influencing without authority",
+    },
+    {
+      id: "strategy",
+      label: "Strategic Thinking",
+      description: "Connecting work to business goals, prioritizing and long-term vision",
+    },
+    {
+      id: "stakeholders",
+      label: "Stakeholder Management",
+      description: "Aligning and communicating with partners, handling disagreement",
+    },
+    communication,
+  ],
+};
+
+// Used when no interview type was selected
+const generalRubric: RubricDimension[] = [
+  {
+    id: "technical-accuracy",
+    label: "Technical Accuracy",
+    description: "Correctness and depth of technical answers",
+  },
+  communication,
+];
+
+// Dimensions for the selected types, without duplicates such as communication
+export function getRubric(interviewTypes?: string[]): RubricDimension[] {
+  const dimensions = new Map<string, RubricDimension>();
+  for (const type of interviewTypes ?? []) {
+    for (const dimension of rubrics[type as InterviewType] ?? []) {
+      if (!dimensions.has(dimension.id)) dimensions.set(dimension.id, dimension);
+    }
+  }
+  return dimensions.size > 0 ? [...dimensions.values()] : generalRubric;
+}
+
+// Scorecards saved before rubrics had two fixed categories
+type LegacyCategory = Omit<ScoreDimension, "id" | "label">;
+interface LegacyScorecard {
+  technicalAccuracy?: LegacyCategory;
+  communicationSkills?: LegacyCategory;
+}
+
+export function getScoreDimensions(scorecard: ScorecardResponse): ScoreDimension[] {
+  if (scorecard.dimensions) return scorecard.dimensions;
+
+  const { technicalAccuracy, communicationSkills } = scorecard as ScorecardResponse & LegacyScorecard;
+  const dimensions: ScoreDimension[] = [];
+  if (technicalAccuracy) {
+    dimensions.push({ id: "technical-accuracy", label: "Technical Accuracy", ...technicalAccuracy });
+  }
+  if (communicationSkills) {
+    dimensions.push({ id: "communication", label: "Communication", ...communicationSkills });
+  }
+  return dimensions;
+}
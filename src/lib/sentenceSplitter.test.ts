@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { createSentenceSplitter } from "./sentenceSplitter";
+
+// Feed the text in chunks and collect every sentence, including the remainder
+function split(chunks: string[]): string[] {
+  const splitter = createSentenceSplitter();
+  const sentences = chunks.flatMap((chunk) => splitter.push(chunk));
+  const rest = splitter.flush();
+  return rest ? [...sentences, rest] : sentences;
+}
+
+describe("createSentenceSplitter", () => {
+  it("splits on terminal punctuation followed by whitespace", () => {
+    expect(split(["Tell me about yourself. What brings you ", "here today? Great!"])).toEqual([
+      "Tell me about yourself.",
+      "What brings you here today?",
+      "Great!",
+    ]);
+  });
+
+  it("holds back short fragments", () => {
+    expect(split(["Use e.g. a hash map here. Then explain why. "])).toEqual([
+      "Use e.g. a hash map here.",
+      "Then explain why.",
+    ]);
+  });
+
+  it("splits on full-width terminators without whitespace", () => {
+    expect(
+      split(["自己紹介をお願いします。これまでの経験について", "教えてください！なぜこの職種に応募しましたか？"])
+    ).toEqual([
+      "自己紹介をお願いします。",
+      "これまでの経験について教えてください！",
+      "なぜこの職種に応募しましたか？",
+    ]);
+  });
+
+  it("keeps a closing bracket that arrives in a later chunk", () => {
+    expect(split(["「それでは始めましょう。", "」次に、設計について話しましょう。"])).toEqual([
+      "「それでは始めましょう。」",
+      "次に、設計について話しましょう。",
+    ]);
+  });
+});
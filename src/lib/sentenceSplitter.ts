@@ -0,0 +1,50 @@
+// Incremental sentence splitter for streamed text, so speech can start on the
+// first sentence while the rest of the reply is still generating
+
+// Terminal punctuation (plus closing quotes/brackets) followed by whitespace,
+// or a line break. Full-width 。！？ (Japanese, Chinese) need no space after
+// them, only the start of the next sentence, so a closing 」 still streaming
+// in isn't cut off.
+const SENTENCE_END = /[.!?]+["')\]]*\s+|[。！？]+[」』）"')\]]*(?:\s+|(?=[^\s」』）"')\]]))|\n+/g;
+
+// Short fragments like "1." or "e.g." are held back and joined to the next one
+const MIN_SENTENCE_LENGTH = 12;
+
+export interface SentenceSplitter {
+  // Add streamed text and get back any sentences it completed
+  push: (text: string) => string[];
+  // Whatever is left once the stream ends
+  flush: () => string | null;
+}
+
+export function createSentenceSplitter(): SentenceSplitter {
+  let buffer = "";
+
+  return {
+    push(text) {
+      buffer += text;
+      const sentences: string[] = [];
+      let start = 0;
+
+      SENTENCE_END.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = SENTENCE_END.exec(buffer))) {
+        const end = match.index + match[0].length;
+        const sentence = buffer.slice(start, end).trim();
+        if (sentence.length >= MIN_SENTENCE_LENGTH) {
+          sentences.push(sentence);
+          start = end;
+        }
+      }
+
+      buffer = buffer.slice(start);
+      return sentences;
+    },
+
+    flush() {
+      const rest = buffer.trim();
+      buffer = "";
+      return rest || null;
+    },
+  };
+}
@@ -0,0 +1,31 @@
+// Shared interview clock rules, used by the countdown UI and the chat route
+
+// Fraction of the session after which the interviewer should wrap up
+export const WRAP_UP_FRACTION = 0.9;
+
+export type SessionPhase = "running" | "wrap-up" | "expired";
+
+export interface SessionClock {
+  elapsedSeconds: number;
+  remainingSeconds: number;
+  phase: SessionPhase;
+}
+
+export function getSessionClock(elapsedSeconds: number, durationMinutes: number): SessionClock {
+  const totalSeconds = durationMinutes * 60;
+  const elapsed = Math.max(0, Math.floor(elapsedSeconds));
+  const remainingSeconds = Math.max(0, totalSeconds - elapsed);
+
+  let phase: SessionPhase = "running";
+  if (remainingSeconds === 0) phase = "expired";
+  else if (elapsed >= totalSeconds * WRAP_UP_FRACTION) phase = "wrap-up";
+
+  return { elapsedSeconds: elapsed, remainingSeconds, phase };
+}
+
+// Format seconds as m:ss for the countdown
+export function formatClock(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${minutes}:${secs.toString().padStart(2, "0")}`;
+}
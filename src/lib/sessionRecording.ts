@@ -0,0 +1,106 @@
+// Builds the streams a session recording is made from: the interviewer and the
+// candidate's camera side by side on a canvas, and one audio track mixing the
+// candidate's mic with the interviewer's voice
+
+const PANEL_WIDTH = 640;
+const PANEL_HEIGHT = 480;
+const FRAME_INTERVAL_MS = 1000 / 30;
+
+export interface RecordingSource {
+  stream: MediaStream;
+  stop: () => void;
+}
+
+// Draw an image scaled to cover a panel, cropping the overflow
+function drawCover(
+  ctx: CanvasRenderingContext2D,
+  image: CanvasImageSource,
+  width: number,
+  height: number,
+  x: number
+) {
+  if (width === 0 || height === 0) return;
+  const scale = Math.max(PANEL_WIDTH / width, PANEL_HEIGHT / height);
+  const drawWidth = width * scale;
+  const drawHeight = height * scale;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, 0, PANEL_WIDTH, PANEL_HEIGHT);
+  ctx.clip();
+  ctx.drawImage(image, x + (PANEL_WIDTH - drawWidth) / 2, (PANEL_HEIGHT - drawHeight) / 2, drawWidth, drawHeight);
+  ctx.restore();
+}
+
+function drawPlaceholder(ctx: CanvasRenderingContext2D, x: number, text: string) {
+  ctx.fillStyle = "#111118";
+  ctx.fillRect(x, 0, PANEL_WIDTH, PANEL_HEIGHT);
+  ctx.fillStyle = "#8a8a99";
+  ctx.font = "20px sans-serif";
+  ctx.textAlign = "center";
+  ctx.fillText(text, x + PANEL_WIDTH / 2, PANEL_HEIGHT / 2);
+}
+
+// Interviewer on the left, candidate on the right. A timer rather than
+// requestAnimationFrame keeps frames coming while the tab is in the background.
+export function composeInterviewVideo(
+  getInterviewer: () => HTMLCanvasElement | null,
+  camera: MediaStream | null
+): RecordingSource {
+  const canvas = document.createElement("canvas");
+  canvas.width = PANEL_WIDTH * 2;
+  canvas.height = PANEL_HEIGHT;
+  const ctx = canvas.getContext("2d")!;
+
+  const cameraTrack = camera?.getVideoTracks()[0];
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  if (cameraTrack) {
+    video.srcObject = new MediaStream([cameraTrack]);
+    video.play().catch(() => {});
+  }
+
+  const drawFrame = () => {
+    const interviewer = getInterviewer();
+    if (interviewer) drawCover(ctx, interviewer, interviewer.width, interviewer.height, 0);
+    else drawPlaceholder(ctx, 0, "AI Interviewer");
+
+    if (cameraTrack?.enabled && cameraTrack.readyState === "live" && video.videoWidth > 0) {
+      drawCover(ctx, video, video.videoWidth, video.videoHeight, PANEL_WIDTH);
+    } else {
+      drawPlaceholder(ctx, PANEL_WIDTH, "Camera off");
+    }
+  };
+
+  drawFrame();
+  const timer = setInterval(drawFrame, FRAME_INTERVAL_MS);
+  const stream = canvas.captureStream(30);
+
+  return {
+    stream,
+    stop() {
+      clearInterval(timer);
+      stream.getTracks().forEach((track) => track.stop());
+      video.srcObject = null;
+    },
+  };
+}
+
+// One audio track from every stream that has audio. Muted mic tracks record as silence.
+export function mixAudio(streams: (MediaStream | null | undefined)[]): RecordingSource {
+  const context = new AudioContext();
+  const destination = context.createMediaStreamDestination();
+
+  for (const stream of streams) {
+    if (!stream || stream.getAudioTracks().length === 0) continue;
+    context.createMediaStreamSource(stream).connect(destination);
+  }
+
+  return {
+    stream: destination.stream,
+    stop() {
+      destination.stream.getTracks().forEach((track) => track.stop());
+      context.close();
+    },
+  };
+}
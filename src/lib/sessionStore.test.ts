@@ -0,0 +1,35 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createSession, deleteSession, getSession, updateSession } from "./sessionStore";
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "sessions-"));
+  process.env.SESSIONS_DB_PATH = path.join(dir, "sessions.json");
+});
+
+afterAll(async () => {
+  delete process.env.SESSIONS_DB_PATH;
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("sessionStore", () => {
+  it("stores sessions with a server-side start time", async () => {
+    const before = Date.now();
+    const session = await createSession({ duration: 15 });
+    expect(session.startedAt).toBeGreaterThanOrEqual(before);
+    expect(await getSession(session.id)).toEqual(session);
+  });
+
+  it("finds nothing for prototype keys", async () => {
+    await createSession({});
+    for (const id of ["constructor", "__proto__", "toString", "hasOwnProperty"]) {
+      expect(await getSession(id)).toBeNull();
+      expect(await updateSession(id, { status: "completed" })).toBeNull();
+      expect(await deleteSession(id)).toBe(false);
+    }
+  });
+});
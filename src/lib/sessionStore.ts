@@ -0,0 +1,149 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type {
+  CreateSessionRequest,
+  InterviewSession,
+  SessionSummary,
+  UpdateSessionRequest,
+} from "@/types/session";
+import type { ExecutionResult, TestSuite } from "@/types/execute";
+import { getScoreDimensions } from "@/lib/rubrics";
+
+// File-backed session store: a single JSON file, so it works offline with no
+// database server. SESSIONS_DB_PATH overrides the location.
+function getDbPath() {
+  return process.env.SESSIONS_DB_PATH || path.join(process.cwd(), ".data", "sessions.json");
+}
+
+type SessionDb = Record<string, InterviewSession>;
+
+// Sessions are looked up by ids from requests, so the map has no prototype:
+// an id like "constructor" must not find anything
+async function readDb(): Promise<SessionDb> {
+  const db: SessionDb = Object.create(null);
+  try {
+    return Object.assign(db, JSON.parse(await readFile(getDbPath(), "utf8")));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return db;
+    throw err;
+  }
+}
+
+// Write to a temp file and rename, so a crash never leaves half a file behind
+async function writeDb(db: SessionDb) {
+  const dbPath = getDbPath();
+  await mkdir(path.dirname(dbPath), { recursive: true });
+  const tmpPath = `${dbPath}.${process.pid}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(db, null, 2));
+  await rename(tmpPath, dbPath);
+}
+
+// Serialize read-modify-write cycles so concurrent requests don't drop updates
+let queue: Promise<unknown> = Promise.resolve();
+
+function mutate<T>(update: (db: SessionDb) => T): Promise<T> {
+  const run = queue.then(async () => {
+    const db = await readDb();
+    const result = update(db);
+    await writeDb(db);
+    return result;
+  });
+  queue = run.catch(() => {});
+  return run;
+}
+
+function toSummary({ messages, scorecard, ...session }: InterviewSession): SessionSummary {
+  delete session.testSuite;
+  delete session.testRuns;
+  return {
+    ...session,
+    messageCount: messages.length,
+    overallScore: scorecard?.overallScore ?? null,
+    dimensionScores: scorecard
+      ? getScoreDimensions(scorecard).map(({ id, label, score }) => ({ id, label, score }))
+      : [],
+  };
+}
+
+// Newest first
+export async function listSessions(): Promise<SessionSummary[]> {
+  const db = await readDb();
+  return Object.values(db)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(toSummary);
+}
+
+export async function getSession(id: string): Promise<InterviewSession | null> {
+  const db = await readDb();
+  return db[id] ?? null;
+}
+
+export function createSession(input: CreateSessionRequest): Promise<InterviewSession> {
+  const now = Date.now();
+  const session: InterviewSession = {
+    id: randomUUID(),
+    status: "in-progress",
+    createdAt: now,
+    updatedAt: now,
+    startedAt: now,
+    jobDescription: input.jobDescription ?? "",
+    interviewTypes: input.interviewTypes ?? [],
+    difficulty: input.difficulty ?? "intermediate",
+    duration: input.duration ?? 30,
+    language: input.language ?? "en-US",
+    provider: input.provider ?? null,
+    model: input.model ?? null,
+    messages: [],
+    scorecard: null,
+  };
+
+  return mutate((db) => {
+    db[session.id] = session;
+    return session;
+  });
+}
+
+export function updateSession(
+  id: string,
+  update: UpdateSessionRequest
+): Promise<InterviewSession | null> {
+  return mutate((db) => {
+    const existing = db[id];
+    if (!existing) return null;
+
+    const session: InterviewSession = {
+      ...existing,
+      ...update,
+      id,
+      updatedAt: Date.now(),
+    };
+    db[id] = session;
+    return session;
+  });
+}
+
+export function deleteSession(id: string): Promise<boolean> {
+  return mutate((db) => {
+    if (!db[id]) return false;
+    delete db[id];
+    return true;
+  });
+}
+
+// Test cases and runs come from the chat route; client updates can't set them
+export function saveTestSuite(id: string, testSuite: TestSuite): Promise<boolean> {
+  return mutate((db) => {
+    if (!db[id]) return false;
+    db[id] = { ...db[id], testSuite };
+    return true;
+  });
+}
+
+export function saveTestRun(id: string, key: string, result: ExecutionResult): Promise<boolean> {
+  return mutate((db) => {
+    if (!db[id]) return false;
+    db[id] = { ...db[id], testRuns: { ...db[id].testRuns, [key]: result } };
+    return true;
+  });
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { createLineSplitter, createSSEParser, readEvents } from "./sse";
+import type { ServerSentEvent } from "./sse";
+
+const encoder = new TextEncoder();
+
+function streamOf<T>(chunks: T[]): ReadableStream<T> {
+  return new ReadableStream<T>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+}
+
+async function collect<T>(stream: ReadableStream<T>): Promise<T[]> {
+  const items: T[] = [];
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return items;
+    items.push(value);
+  }
+}
+
+const splitLines = (chunks: (string | Uint8Array)[]) =>
+  collect(
+    streamOf(chunks.map((c) => (typeof c === "string" ? encoder.encode(c) : c))).pipeThrough(
+      createLineSplitter()
+    )
+  );
+
+const parseEvents = (chunks: string[]) =>
+  collect(
+    streamOf(chunks.map((c) => encoder.encode(c)))
+      .pipeThrough(createLineSplitter())
+      .pipeThrough(createSSEParser())
+  );
+
+describe("createLineSplitter", () => {
+  it("splits on \\n, \\r\\n and \\r", async () => {
+    expect(await splitLines(["a\nb\r\nc\rd\n"])).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("treats a \\r\\n split between chunks as one line ending", async () => {
+    expect(await splitLines(["a\r", "\nb\n"])).toEqual(["a", "b"]);
+  });
+
+  it("keeps blank lines between \\r\\n endings", async () => {
+    expect(await splitLines(["a\r\n\r\nb\r\n"])).toEqual(["a", "", "b"]);
+  });
+
+  it("joins lines split across chunks", async () => {
+    expect(await splitLines(["da", "ta: hel", "lo\n"])).toEqual(["data: hello"]);
+  });
+
+  it("decodes multi-byte characters split across chunks", async () => {
+    const bytes = encoder.encode("héllo 日本\n");
+    // Cut inside "é" and inside "日"
+    const chunks = [bytes.slice(0, 2), bytes.slice(2, 8), bytes.slice(8)];
+    expect(await splitLines(chunks)).toEqual(["héllo 日本"]);
+  });
+
+  it("emits a final line without a trailing newline", async () => {
+    expect(await splitLines(["a\nb"])).toEqual(["a", "b"]);
+  });
+});
+
+describe("createSSEParser", () => {
+  it("parses events with a type and JSON data", async () => {
+    expect(await parseEvents(['event: token\ndata: {"text":"hi"}\n\n'])).toEqual([
+      { event: "token", data: '{"text":"hi"}' },
+    ]);
+  });
+
+  it("defaults the event type to message", async () => {
+    expect(await parseEvents(["data: hi\n\n"])).toEqual([{ event: "message", data: "hi" }]);
+  });
+
+  it("joins multiple data lines with newlines", async () => {
+    expect(await parseEvents(["data: one\ndata: two\n\n"])).toEqual([
+      { event: "message", data: "one\ntwo" },
+    ]);
+  });
+
+  it("handles a data field split mid-value across chunks", async () => {
+    expect(await parseEvents(["event: tok", "en\ndata: {\"te", 'xt":"hi"}\n', "\n"])).toEqual([
+      { event: "token", data: '{"text":"hi"}' },
+    ]);
+  });
+
+  it("handles \\r\\n line endings", async () => {
+    expect(await parseEvents(["event: done\r\ndata: {}\r\n\r\n"])).toEqual([
+      { event: "done", data: "{}" },
+    ]);
+  });
+
+  it("dispatches a trailing event without a blank line", async () => {
+    expect(await parseEvents(["data: first\n\ndata: last"])).toEqual([
+      { event: "message", data: "first" },
+      { event: "message", data: "last" },
+    ]);
+  });
+
+  it("ignores comments and keep-alives", async () => {
+    expect(await parseEvents([": keep-alive\n\n", ":\ndata: hi\n: ping\n\n"])).toEqual([
+      { event: "message", data: "hi" },
+    ]);
+  });
+
+  it("drops events without data", async () => {
+    expect(await parseEvents(["event: ping\n\ndata: hi\n\n"])).toEqual([
+      { event: "message", data: "hi" },
+    ]);
+  });
+});
+
+describe("readEvents", () => {
+  it("yields events from a response body", async () => {
+    const events: ServerSentEvent[] = [];
+    for await (const event of readEvents(streamOf([encoder.encode("data: a\n\ndata: b\n\n")]))) {
+      events.push(event);
+    }
+    expect(events).toEqual([
+      { event: "message", data: "a" },
+      { event: "message", data: "b" },
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+// Minimal server-sent events encoding and decoding
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Serialize one event with a JSON payload
+export function encodeEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Decode a byte stream into complete lines. Partial lines (and multi-byte
+// characters) split across network chunks are buffered until the rest arrives.
+// Accepts \n, \r\n and \r line endings, including a \r\n split between chunks.
+export function createLineSplitter(): TransformStream<Uint8Array, string> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let pendingCR = false;
+
+  const pushLines = (text: string, controller: TransformStreamDefaultController<string>) => {
+    // A \r at the end of the previous chunk may be the first half of \r\n
+    if (pendingCR && text.startsWith("\n")) text = text.slice(1);
+    pendingCR = false;
+
+    buffer += text;
+    let start = 0;
+    for (let i = 0; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (char !== "\n" && char !== "\r") continue;
+
+      controller.enqueue(buffer.slice(start, i));
+      if (char === "\r") {
+        if (i + 1 === buffer.length) pendingCR = true;
+        else if (buffer[i + 1] === "\n") i++;
+      }
+      start = i + 1;
+    }
+    buffer = buffer.slice(start);
+  };
+
+  return new TransformStream<Uint8Array, string>({
+    transform(chunk, controller) {
+      pushLines(decoder.decode(chunk, { stream: true }), controller);
+    },
+    flush(controller) {
+      pushLines(decoder.decode(), controller);
+      if (buffer) controller.enqueue(buffer);
+    },
+  });
+}
+
+// Group lines into events. An event is dispatched on a blank line, or at the
+// end of the stream if the last event was not terminated.
+export function createSSEParser(): TransformStream<string, ServerSentEvent> {
+  let event = "message";
+  let data: string[] = [];
+
+  const dispatch = (controller: TransformStreamDefaultController<ServerSentEvent>) => {
+    if (data.length > 0) controller.enqueue({ event, data: data.join("\n") });
+    event = "message";
+    data = [];
+  };
+
+  return new TransformStream<string, ServerSentEvent>({
+    transform(line, controller) {
+      if (line === "") {
+        dispatch(controller);
+        return;
+      }
+      if (line.startsWith(":")) return; // comment / keep-alive
+
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      let value = colon === -1 ? "" : line.slice(colon + 1);
+      if (value.startsWith(" ")) value = value.slice(1);
+
+      if (field === "event") event = value;
+      else if (field === "data") data.push(value);
+    },
+    flush(controller) {
+      dispatch(controller);
+    },
+  });
+}
+
+// Read events from a response body
+export async function* readEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body
+    .pipeThrough(createLineSplitter())
+    .pipeThrough(createSSEParser())
+    .getReader();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    // Stops the underlying body if the caller stopped reading early
+    await reader.cancel();
+  }
+}
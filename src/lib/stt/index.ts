@@ -0,0 +1,12 @@
+import { whisperProvider } from "./whisper";
+import type { STTProvider } from "./types";
+
+export type { STTProvider, STTProviderId, TranscribeOptions, Transcript } from "./types";
+export { appendChunk, discardRecording, MAX_RECORDING_BYTES } from "./recordings";
+
+// Providers in priority order
+export const sttProviders: STTProvider[] = [whisperProvider];
+
+export function detectSTTProvider(): STTProvider | null {
+  return sttProviders.find((p) => p.isConfigured()) || null;
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { appendChunk, discardRecording, MAX_OPEN_RECORDINGS } from "./recordings";
+
+const chunk = (text: string) => new Blob([text], { type: "audio/webm" });
+
+describe("recordings", () => {
+  it("joins an utterance's chunks until it is discarded", async () => {
+    appendChunk("joined", chunk("head"));
+    expect(await appendChunk("joined", chunk("-tail"))?.text()).toBe("head-tail");
+
+    discardRecording("joined");
+    expect(await appendChunk("joined", chunk("again"))?.text()).toBe("again");
+    discardRecording("joined");
+  });
+
+  it("drops the least recently updated utterance once too many are open", async () => {
+    for (let i = 0; i < MAX_OPEN_RECORDINGS; i++) appendChunk(`open-${i}`, chunk(`${i}`));
+    // Touching the first keeps it, so the second is the oldest
+    appendChunk("open-0", chunk("+"));
+    appendChunk("one-too-many", chunk("new"));
+
+    expect(await appendChunk("open-0", chunk("+"))?.text()).toBe("0++");
+    expect(await appendChunk("open-1", chunk("!"))?.text()).toBe("!");
+
+    for (let i = 0; i < MAX_OPEN_RECORDINGS; i++) discardRecording(`open-${i}`);
+    discardRecording("one-too-many");
+  });
+});
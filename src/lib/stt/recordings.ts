@@ -0,0 +1,70 @@
+// In-memory buffer of audio chunks per utterance. MediaRecorder only writes the
+// container header into its first chunk, so each interim transcript is taken
+// over everything recorded so far.
+
+const RECORDING_TTL_MS = 5 * 60 * 1000;
+export const MAX_RECORDING_BYTES = 25 * 1024 * 1024;
+// Across all utterances, so many open ids can't hold the server's memory
+export const MAX_OPEN_RECORDINGS = 64;
+export const MAX_BUFFERED_BYTES = 128 * 1024 * 1024;
+
+interface Recording {
+  chunks: Blob[];
+  size: number;
+  updatedAt: number;
+}
+
+// Kept in order of last update, so the first entry is the least recently used
+const recordings = new Map<string, Recording>();
+let bufferedBytes = 0;
+
+function removeRecording(id: string) {
+  const recording = recordings.get(id);
+  if (!recording) return;
+  bufferedBytes -= recording.size;
+  recordings.delete(id);
+}
+
+// Forget recordings whose final chunk never arrived
+function evictStale(now: number) {
+  for (const [id, recording] of recordings) {
+    if (now - recording.updatedAt > RECORDING_TTL_MS) removeRecording(id);
+  }
+}
+
+// Drop the least recently updated recordings until the incoming chunk fits
+function makeRoom(id: string, incoming: number) {
+  for (const key of recordings.keys()) {
+    const full =
+      bufferedBytes + incoming > MAX_BUFFERED_BYTES ||
+      (!recordings.has(id) && recordings.size >= MAX_OPEN_RECORDINGS);
+    if (!full) break;
+    if (key !== id) removeRecording(key);
+  }
+}
+
+// Add a chunk and return the audio recorded so far, or null once it is too large
+export function appendChunk(id: string, chunk: Blob): Blob | null {
+  const now = Date.now();
+  evictStale(now);
+
+  const recording = recordings.get(id) ?? { chunks: [], size: 0, updatedAt: now };
+  if (recording.size + chunk.size > MAX_RECORDING_BYTES) {
+    removeRecording(id);
+    return null;
+  }
+
+  makeRoom(id, chunk.size);
+  if (chunk.size > 0) recording.chunks.push(chunk);
+  recording.size += chunk.size;
+  recording.updatedAt = now;
+  bufferedBytes += chunk.size;
+  recordings.delete(id);
+  recordings.set(id, recording);
+
+  return new Blob(recording.chunks, { type: chunk.type || recording.chunks[0]?.type });
+}
+
+export function discardRecording(id: string) {
+  removeRecording(id);
+}
@@ -0,0 +1,21 @@
+export type STTProviderId = "whisper";
+
+export interface TranscribeOptions {
+  // ISO-639-1 code such as "en"; the backend detects it when omitted
+  language?: string;
+  signal?: AbortSignal;
+}
+
+export interface Transcript {
+  text: string;
+  language?: string;
+}
+
+// Common interface every server-side speech-to-text backend implements
+export interface STTProvider {
+  id: STTProviderId;
+  label: string;
+  envKey: string;
+  isConfigured: () => boolean;
+  transcribe: (audio: Blob, options?: TranscribeOptions) => Promise<Transcript>;
+}
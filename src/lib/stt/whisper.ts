@@ -0,0 +1,47 @@
+import { ensureOk } from "@/lib/llm/utils";
+import type { STTProvider } from "./types";
+
+// Any server with the OpenAI-style /v1/audio/transcriptions endpoint, such as
+// faster-whisper-server or whisper.cpp's server. Pointing WHISPER_URL at a
+// stub server is enough to test without a model.
+function getUrl() {
+  const base = (process.env.WHISPER_URL || "http://localhost:8000").replace(/\/+$/, "");
+  return `${base}/v1/audio/transcriptions`;
+}
+
+function getModel() {
+  return process.env.WHISPER_MODEL || "whisper-1";
+}
+
+export const whisperProvider: STTProvider = {
+  id: "whisper",
+  label: "Whisper",
+  envKey: "WHISPER_URL",
+
+  isConfigured: () => !!process.env.WHISPER_URL,
+
+  async transcribe(audio, options = {}) {
+    const form = new FormData();
+    form.append("file", audio, "audio.webm");
+    form.append("model", getModel());
+    form.append("response_format", "json");
+    if (options.language) form.append("language", options.language);
+
+    const headers: Record<string, string> = {};
+    if (process.env.WHISPER_API_KEY) {
+      headers["Authorization"] = `Bearer ${process.env.WHISPER_API_KEY}`;
+    }
+
+    const response = await fetch(getUrl(), {
+      method: "POST",
+      headers,
+      body: form,
+      signal: options.signal,
+    });
+
+    await ensureOk(response, "Whisper");
+
+    const data = await response.json();
+    return { text: (data.text ?? "").trim(), language: data.language };
+  },
+};
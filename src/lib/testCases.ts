@@ -0,0 +1,55 @@
+// The interviewer attaches test cases to a coding problem as a fenced ```tests
+// block of JSON at the end of its message. This pulls the block out so it is
+// neither shown nor spoken, and formats run results for the interviewer.
+
+import type { ExecutionResult, TestSuite } from "@/types/execute";
+
+// Also matches a block that is still streaming in
+const TEST_BLOCK = /\n*```tests\s*([\s\S]*?)(?:```|$)/;
+
+export function stripTestSuite(content: string): string {
+  return content.replace(TEST_BLOCK, "").trimEnd();
+}
+
+// Test suite from an interviewer message, or null if it has none or it is malformed
+export function extractTestSuite(content: string): TestSuite | null {
+  const match = content.match(TEST_BLOCK);
+  if (!match) return null;
+
+  try {
+    const parsed = JSON.parse(match[1]);
+    if (typeof parsed?.functionName !== "string" || !Array.isArray(parsed.cases)) return null;
+    const cases = parsed.cases.filter(
+      (c: unknown): c is TestSuite["cases"][number] =>
+        typeof c === "object" && c !== null && Array.isArray((c as { args?: unknown }).args)
+    );
+    return cases.length > 0 ? { functionName: parsed.functionName, cases } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Most recent test suite the interviewer gave
+export function findLatestTestSuite(messages: { role: string; content: string }[]): TestSuite | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role !== "assistant") continue;
+    const suite = extractTestSuite(messages[i].content);
+    if (suite) return suite;
+  }
+  return null;
+}
+
+const show = (value: unknown) => (value === undefined ? "undefined" : JSON.stringify(value));
+
+// Plain-text summary listing the failing cases
+export function formatTestResults(result: ExecutionResult): string {
+  const lines = [`[Test results: ${result.passed}/${result.total} passed]`];
+  if (result.error) lines.push(`Error: ${result.error}`);
+  result.results.forEach((r, i) => {
+    if (r.passed) return;
+    const args = r.args.map(show).join(", ");
+    const outcome = r.error ? `error ${r.error}` : `got ${show(r.actual)}`;
+    lines.push(`- Case ${i + 1}: ${result.functionName}(${args}) expected ${show(r.expected)}, ${outcome}`);
+  });
+  return lines.join("\n");
+}
@@ -0,0 +1,17 @@
+import { piperEngine } from "./piper";
+import type { TTSEngine, TTSEngineId } from "./types";
+
+export type { SynthesisOptions, SynthesizedAudio, TTSEngine, TTSEngineId, TTSVoice } from "./types";
+
+// Engines in priority order
+export const engines: TTSEngine[] = [piperEngine];
+
+// TTS_ENGINE picks an engine explicitly, otherwise the first configured one
+export function detectEngine(): TTSEngine | null {
+  const requested = process.env.TTS_ENGINE as TTSEngineId | undefined;
+  if (requested) {
+    const engine = engines.find((e) => e.id === requested);
+    return engine?.isConfigured() ? engine : null;
+  }
+  return engines.find((e) => e.isConfigured()) || null;
+}
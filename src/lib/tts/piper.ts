@@ -0,0 +1,45 @@
+import { ensureOk } from "@/lib/llm/utils";
+import type { TTSEngine, TTSVoice } from "./types";
+
+// Piper's HTTP server (python -m piper.http_server), or anything that speaks
+// the same API: POST JSON text and get a WAV file back. Runs fully offline.
+function getUrl() {
+  return (process.env.PIPER_URL || "http://localhost:5000").replace(/\/+$/, "");
+}
+
+// Voice model per language and gender, e.g. PIPER_VOICE_ES_FEMALE=es_ES-davefx-medium,
+// falling back to PIPER_VOICE_FEMALE / PIPER_VOICE_MALE, then the server default
+function getVoice(voice: TTSVoice, language?: string) {
+  const gender = voice.toUpperCase();
+  const lang = language?.split("-")[0].toUpperCase();
+  return (lang && process.env[`PIPER_VOICE_${lang}_${gender}`]) || process.env[`PIPER_VOICE_${gender}`];
+}
+
+export const piperEngine: TTSEngine = {
+  id: "piper",
+  label: "Piper",
+  envKey: "PIPER_URL",
+
+  isConfigured: () => !!process.env.PIPER_URL,
+
+  async synthesize(text, options = {}) {
+    const response = await fetch(getUrl(), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      signal: options.signal,
+      body: JSON.stringify({
+        text,
+        voice: getVoice(options.voice ?? "female", options.language),
+        // Piper stretches time, so a higher speed is a shorter length
+        length_scale: 1 / (options.speed ?? 1),
+      }),
+    });
+
+    await ensureOk(response, "Piper");
+
+    return {
+      audio: await response.arrayBuffer(),
+      contentType: response.headers.get("Content-Type") || "audio/wav",
+    };
+  },
+};
@@ -0,0 +1,26 @@
+export type TTSEngineId = "piper";
+
+export type TTSVoice = "female" | "male";
+
+export interface SynthesisOptions {
+  voice?: TTSVoice;
+  // BCP 47 tag such as "es-ES"
+  language?: string;
+  // 1 is normal speed
+  speed?: number;
+  signal?: AbortSignal;
+}
+
+export interface SynthesizedAudio {
+  audio: ArrayBuffer;
+  contentType: string;
+}
+
+// Common interface every server-side text-to-speech engine implements
+export interface TTSEngine {
+  id: TTSEngineId;
+  label: string;
+  envKey: string;
+  isConfigured: () => boolean;
+  synthesize: (text: string, options?: SynthesisOptions) => Promise<SynthesizedAudio>;
+}
@@ -0,0 +1,156 @@
+// Text-to-viseme mapping and a lip sync timeline driven by speech synthesis
+// word boundary events
+
+// Oculus/Ready Player Me viseme set
+export type Viseme =
+  | "sil"
+  | "PP"
+  | "FF"
+  | "TH"
+  | "DD"
+  | "kk"
+  | "CH"
+  | "SS"
+  | "nn"
+  | "RR"
+  | "aa"
+  | "E"
+  | "I"
+  | "O"
+  | "U";
+
+// How far the mouth opens (0-1) for each viseme
+export const visemeOpenness: Record<Viseme, number> = {
+  sil: 0,
+  PP: 0,
+  FF: 0.1,
+  TH: 0.2,
+  DD: 0.3,
+  kk: 0.35,
+  CH: 0.3,
+  SS: 0.15,
+  nn: 0.25,
+  RR: 0.3,
+  aa: 1,
+  E: 0.6,
+  I: 0.45,
+  O: 0.8,
+  U: 0.5,
+};
+
+const digraphs: Record<string, Viseme> = {
+  th: "TH",
+  sh: "CH",
+  ch: "CH",
+  ph: "FF",
+  ng: "nn",
+  ck: "kk",
+  qu: "kk",
+};
+
+const letters: Record<string, Viseme> = {
+  a: "aa",
+  e: "E",
+  i: "I",
+  y: "I",
+  o: "O",
+  u: "U",
+  w: "U",
+  p: "PP",
+  b: "PP",
+  m: "PP",
+  f: "FF",
+  v: "FF",
+  t: "DD",
+  d: "DD",
+  k: "kk",
+  g: "kk",
+  c: "kk",
+  q: "kk",
+  x: "kk",
+  j: "CH",
+  s: "SS",
+  z: "SS",
+  n: "nn",
+  l: "nn",
+  r: "RR",
+};
+
+// Rough spelling-based visemes for a word; letters with no clear mouth shape
+// (like "h") are skipped and repeats are merged
+export function textToVisemes(text: string): Viseme[] {
+  const word = text.toLowerCase();
+  const visemes: Viseme[] = [];
+
+  for (let i = 0; i < word.length; i++) {
+    const pair = word.slice(i, i + 2);
+    let viseme: Viseme | undefined = digraphs[pair];
+    if (viseme) {
+      i++;
+    } else {
+      viseme = letters[word[i]];
+    }
+    if (viseme && viseme !== visemes[visemes.length - 1]) {
+      visemes.push(viseme);
+    }
+  }
+
+  return visemes;
+}
+
+// Speaking pace at rate 1, used to spread a word's visemes over time
+const MS_PER_CHAR = 65;
+
+export interface MouthShape {
+  viseme: Viseme;
+  open: number;
+}
+
+export interface LipSync {
+  // Call when an utterance starts or stops to clear the timeline
+  reset: () => void;
+  // Feed a spoken word, e.g. from SpeechSynthesisUtterance.onboundary
+  pushWord: (word: string, rate?: number, at?: number) => void;
+  // Mouth shape at a point in time, or null if no words have been fed yet
+  sample: (at?: number) => MouthShape | null;
+}
+
+interface TimedViseme {
+  viseme: Viseme;
+  start: number;
+  end: number;
+}
+
+export function createLipSync(): LipSync {
+  let timeline: TimedViseme[] = [];
+  let hasWords = false;
+
+  return {
+    reset() {
+      timeline = [];
+      hasWords = false;
+    },
+
+    pushWord(word, rate = 1, at = performance.now()) {
+      const visemes = textToVisemes(word);
+      hasWords = true;
+      if (visemes.length === 0) return;
+
+      const duration = (word.length * MS_PER_CHAR) / rate;
+      const step = duration / visemes.length;
+      // A new word cuts off whatever is left of the previous one
+      timeline = visemes.map((viseme, i) => ({
+        viseme,
+        start: at + i * step,
+        end: at + (i + 1) * step,
+      }));
+    },
+
+    sample(at = performance.now()) {
+      if (!hasWords) return null;
+      const current = timeline.find((v) => at >= v.start && at < v.end);
+      const viseme = current?.viseme ?? "sil";
+      return { viseme, open: visemeOpenness[viseme] };
+    },
+  };
+}
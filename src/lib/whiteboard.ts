@@ -0,0 +1,72 @@
+// Geometry and text serialization for the system design whiteboard
+
+import type { WhiteboardBox, WhiteboardState } from "@/types/whiteboard";
+
+export const WHITEBOARD_WIDTH = 800;
+export const WHITEBOARD_HEIGHT = 500;
+export const BOX_WIDTH = 140;
+export const BOX_HEIGHT = 56;
+
+export const EMPTY_WHITEBOARD: WhiteboardState = { boxes: [], arrows: [], notes: [] };
+
+export function isWhiteboardEmpty({ boxes, arrows, notes }: WhiteboardState): boolean {
+  return boxes.length === 0 && arrows.length === 0 && notes.length === 0;
+}
+
+export function createWhiteboardId(): string {
+  return crypto.randomUUID().slice(0, 8);
+}
+
+// Where the line from a box's center toward a point leaves the box
+export function getBoxEdgePoint(box: WhiteboardBox, toward: { x: number; y: number }) {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const dx = toward.x - cx;
+  const dy = toward.y - cy;
+  if (dx === 0 && dy === 0) return { x: cx, y: cy };
+
+  const scale = Math.min(
+    dx === 0 ? Infinity : box.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : box.height / 2 / Math.abs(dy)
+  );
+  return { x: cx + dx * scale, y: cy + dy * scale };
+}
+
+export function getBoxCenter(box: WhiteboardBox) {
+  return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+const quote = (text: string) => `"${text.trim() || "Unlabeled"}"`;
+
+// Compact text description of the diagram for the interviewer. Notes are
+// placed next to the closest component so their meaning survives.
+export function describeWhiteboard({ boxes, arrows, notes }: WhiteboardState): string {
+  const byId = new Map(boxes.map((b) => [b.id, b]));
+  const lines = ["[Whiteboard diagram]"];
+
+  if (boxes.length > 0) {
+    lines.push(`Components: ${boxes.map((b) => quote(b.label)).join(", ")}`);
+  }
+
+  const connections = arrows
+    .filter((a) => byId.has(a.from) && byId.has(a.to))
+    .map((a) => {
+      const label = a.label.trim() ? ` (${a.label.trim()})` : "";
+      return `- ${quote(byId.get(a.from)!.label)} -> ${quote(byId.get(a.to)!.label)}${label}`;
+    });
+  if (connections.length > 0) lines.push("Connections:", ...connections);
+
+  const described = notes
+    .filter((n) => n.text.trim())
+    .map((n) => {
+      const nearest = boxes.reduce<{ box: WhiteboardBox; distance: number } | null>((best, box) => {
+        const center = getBoxCenter(box);
+        const distance = Math.hypot(center.x - n.x, center.y - n.y);
+        return !best || distance < best.distance ? { box, distance } : best;
+      }, null);
+      return `- ${quote(n.text)}${nearest ? ` near ${quote(nearest.box.label)}` : ""}`;
+    });
+  if (described.length > 0) lines.push("Notes:", ...described);
+
+  return lines.join("\n");
+}
@@ -1,7 +1,15 @@
 import { create } from "zustand";
 import type { ScorecardResponse } from "@/app/api/scorecard/route";
-
-export type InterviewStep = "setup" | "interviewing" | "feedback";
+import type { ProviderId, TokenUsage } from "@/lib/llm";
+import type { CodeSubmission, TurnMetadata } from "@/types/chat";
+import type { InterviewSession } from "@/types/session";
+import type { QuizAnswer, QuizGrade, QuizQuestion } from "@/types/quiz";
+import type { WhiteboardState } from "@/types/whiteboard";
+import { EMPTY_WHITEBOARD } from "@/lib/whiteboard";
+import { DEFAULT_LANGUAGE } from "@/lib/languages";
+import type { InterviewLanguage } from "@/lib/languages";
+
+export type InterviewStep = "setup" | "interviewing" | "feedback" | "review" | "history";
 export type VoicePreference = "female" | "male";
 export type InterviewType = "coding" | "multiple-choice" | "behavioral" | "technical" | "hr" | "hiring-manager";
 export type DifficultyLevel = "beginner" | "intermediate" | "advanced";
@@ -10,6 +18,32 @@ export type InterviewDuration = 15 | 30 | 60;
 export interface Message {
   role: "user" | "assistant" | "system";
   content: string;
+  // Epoch ms when the message was added
+  timestamp?: number;
+  // Seconds into the session recording when the message was added, if recording
+  recordingOffset?: number;
+  // Set on assistant messages from the chat stream's meta and usage events
+  meta?: TurnMetadata;
+  usage?: TokenUsage;
+  // The candidate stopped generation before the reply finished
+  interrupted?: boolean;
+  // Set on user messages given with voice input rather than typed
+  spoken?: boolean;
+  // Set on user messages submitted from the code editor
+  code?: CodeSubmission;
+  // Multiple-choice question on an assistant message, and its grade once answered
+  quiz?: QuizQuestion;
+  quizGrade?: QuizGrade;
+  // Set on the user message that answered a quiz question
+  quizAnswer?: QuizAnswer;
+  // Snapshot of the whiteboard, attached to a user message when it changed
+  whiteboard?: WhiteboardState;
+}
+
+// Finished recording of the interview, kept in memory for review
+export interface SessionRecording {
+  blob: Blob;
+  durationSeconds: number;
 }
 
 interface InterviewState {
@@ -24,6 +58,20 @@ interface InterviewState {
   interviewTypes: InterviewType[];
   difficulty: DifficultyLevel;
   duration: InterviewDuration;
+  // Spoken and written language of the whole interview
+  language: InterviewLanguage;
+  // null lets the server pick its default provider / model
+  aiProvider: ProviderId | null;
+  aiModel: string | null;
+  // Epoch ms when the interview clock started, null outside a session
+  sessionStartedAt: number | null;
+  // Id of the persisted session in /api/sessions, null when not saved
+  sessionId: string | null;
+  // System design diagram being drawn during the interview
+  whiteboard: WhiteboardState;
+  // Epoch ms when the running recording started, null when not recording
+  recordingStartedAt: number | null;
+  recording: SessionRecording | null;
 
   // Media control states
   cameraOn: boolean;
@@ -45,6 +93,16 @@ interface InterviewState {
   toggleInterviewType: (type: InterviewType) => void;
   setDifficulty: (difficulty: DifficultyLevel) => void;
   setDuration: (duration: InterviewDuration) => void;
+  setLanguage: (language: InterviewLanguage) => void;
+  setAiProvider: (provider: ProviderId | null) => void;
+  setAiModel: (model: string | null) => void;
+  startSessionClock: () => void;
+  setSessionId: (id: string | null) => void;
+  resumeSession: (session: InterviewSession) => void;
+  setWhiteboard: (whiteboard: WhiteboardState) => void;
+  startRecordingClock: () => void;
+  stopRecordingClock: () => void;
+  setRecording: (recording: SessionRecording | null) => void;
   setCameraOn: (on: boolean) => void;
   setMicOn: (on: boolean) => void;
   setIsScreenSharing: (sharing: boolean) => void;
@@ -64,6 +122,14 @@ export const useInterviewStore = create<InterviewState>((set) => ({
   interviewTypes: [],
   difficulty: "intermediate",
   duration: 30,
+  language: DEFAULT_LANGUAGE,
+  aiProvider: null,
+  aiModel: null,
+  sessionStartedAt: null,
+  sessionId: null,
+  whiteboard: EMPTY_WHITEBOARD,
+  recordingStartedAt: null,
+  recording: null,
   cameraOn: false,
   micOn: false,
   isScreenSharing: false,
@@ -72,11 +138,17 @@ export const useInterviewStore = create<InterviewState>((set) => ({
   setCurrentStep: (step) => set({ currentStep: step }),
 
   addMessage: (message) =>
-    set((state) => ({
-      messages: [...state.messages, message],
-    })),
+    set((state) => {
+      const timestamp = message.timestamp ?? Date.now();
+      const recordingOffset =
+        state.recordingStartedAt !== null
+          ? Math.max(0, (timestamp - state.recordingStartedAt) / 1000)
+          : undefined;
+      return { messages: [...state.messages, { ...message, timestamp, recordingOffset }] };
+    }),
 
-  clearMessages: () => set({ messages: [] }),
+  // The whiteboard and recording belong to the conversation and are cleared with it
+  clearMessages: () => set({ messages: [], whiteboard: EMPTY_WHITEBOARD, recording: null }),
 
   setJobDescription: (description) => set({ jobDescription: description }),
 
@@ -103,6 +175,52 @@ export const useInterviewStore = create<InterviewState>((set) => ({
 
   setDuration: (duration) => set({ duration }),
 
+  setLanguage: (language) => set({ language }),
+
+  // Switching provider resets the model to that provider's default
+  setAiProvider: (provider) => set({ aiProvider: provider, aiModel: null }),
+
+  setAiModel: (model) => set({ aiModel: model }),
+
+  startSessionClock: () => set({ sessionStartedAt: Date.now() }),
+
+  setSessionId: (id) => set({ sessionId: id }),
+
+  // Load a saved session, picking up the interview where it left off
+  resumeSession: (session) =>
+    set({
+      sessionId: session.id,
+      currentStep: session.status === "completed" ? "feedback" : "interviewing",
+      messages: session.messages,
+      jobDescription: session.jobDescription,
+      interviewTypes: session.interviewTypes,
+      difficulty: session.difficulty,
+      duration: session.duration,
+      language: session.language ?? DEFAULT_LANGUAGE,
+      aiProvider: session.provider,
+      aiModel: session.model,
+      sessionStartedAt: session.startedAt,
+      scorecard: session.scorecard,
+      isScorecardLoading: false,
+      scorecardError: null,
+      // Pick the diagram up from the last snapshot sent
+      whiteboard:
+        session.messages.findLast((m) => m.whiteboard)?.whiteboard ?? EMPTY_WHITEBOARD,
+    }),
+
+  setWhiteboard: (whiteboard) => set({ whiteboard }),
+
+  // Offsets from an earlier recording would point into the wrong video
+  startRecordingClock: () =>
+    set((state) => ({
+      recordingStartedAt: Date.now(),
+      messages: state.messages.map((message) => ({ ...message, recordingOffset: undefined })),
+    })),
+
+  stopRecordingClock: () => set({ recordingStartedAt: null }),
+
+  setRecording: (recording) => set({ recording }),
+
   setCameraOn: (on) => set({ cameraOn: on }),
 
   setMicOn: (on) => set({ micOn: on }),
@@ -123,6 +241,11 @@ export const useInterviewStore = create<InterviewState>((set) => ({
       interviewTypes: [],
       difficulty: "intermediate",
       duration: 30,
+      sessionStartedAt: null,
+      sessionId: null,
+      whiteboard: EMPTY_WHITEBOARD,
+      recordingStartedAt: null,
+      recording: null,
       cameraOn: false,
       micOn: false,
       isScreenSharing: false,
@@ -0,0 +1,46 @@
+// Server-sent event protocol for /api/chat
+
+import type { LLMMessage, ProviderId, TokenUsage } from "@/lib/llm";
+import type { ExecutionResult } from "./execute";
+import type { QuizAnswer, QuizQuestion } from "./quiz";
+import type { WhiteboardState } from "./whiteboard";
+
+// Code the candidate submitted from the editor
+export interface CodeSubmission {
+  language: string;
+  source: string;
+  // The server's run of this exact code against the interviewer's test cases,
+  // for display. Ignored when sent back; the server keeps its own copy.
+  testResults?: ExecutionResult;
+}
+
+// Message as sent to /api/chat; code submissions, quiz questions, quiz
+// answers and whiteboard snapshots travel separately so the route can frame
+// them for the interviewer
+export interface ChatRequestMessage extends LLMMessage {
+  code?: CodeSubmission;
+  quiz?: QuizQuestion;
+  quizAnswer?: QuizAnswer;
+  whiteboard?: WhiteboardState;
+}
+
+export interface TurnMetadata {
+  questionId: string;
+  // Interview type the turn belongs to, or "general" when none was selected
+  section: string;
+  difficulty: string;
+  provider: ProviderId;
+  model: string;
+}
+
+export type ChatEvent =
+  | { type: "meta"; meta: TurnMetadata }
+  | { type: "token"; text: string }
+  | { type: "usage"; usage: TokenUsage }
+  | { type: "quiz"; quiz: QuizQuestion }
+  // Results of the submission this turn answers, run on the server
+  | { type: "tests"; result: ExecutionResult }
+  | { type: "error"; message: string }
+  | { type: "done" };
+
+export type ChatEventType = ChatEvent["type"];
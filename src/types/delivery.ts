@@ -0,0 +1,26 @@
+// Speaking delivery measured on the client from the candidate's microphone and
+// spoken answers. Fields are null when the data to measure them is missing.
+
+export interface FillerWordCount {
+  word: string;
+  count: number;
+}
+
+export interface DeliveryMetrics {
+  // Spoken words per minute of the candidate's speaking time
+  wordsPerMinute: number | null;
+  speakingSeconds: number | null;
+  // Time the interviewer's voice was playing
+  listeningSeconds: number | null;
+  // Candidate's share of the time either side was talking, 0-1
+  talkRatio: number | null;
+  // Silences within the candidate's answers
+  averagePauseSeconds: number | null;
+  longestPauseSeconds: number | null;
+  longPauses: number | null;
+  // Empty when filler words aren't tracked for the interview language
+  fillerWords: FillerWordCount[];
+  fillersPer100Words: number | null;
+  // Standard deviation of loudness while speaking; lower is steadier
+  volumeVariationDb: number | null;
+}
@@ -0,0 +1,41 @@
+// Test cases and results for /api/execute
+
+// One call of the candidate's function and the value it should return
+export interface TestCase {
+  args: unknown[];
+  expected: unknown;
+}
+
+// Test cases the interviewer attaches to a coding problem
+export interface TestSuite {
+  // Function the candidate is asked to implement
+  functionName: string;
+  cases: TestCase[];
+}
+
+export interface TestCaseResult {
+  args: unknown[];
+  expected: unknown;
+  actual?: unknown;
+  passed: boolean;
+  // Exception thrown by this case
+  error?: string;
+}
+
+export interface ExecutionResult {
+  functionName: string;
+  results: TestCaseResult[];
+  passed: number;
+  total: number;
+  // Console output, truncated
+  stdout: string;
+  // Set when the code failed to load or the run was cut short
+  error?: string;
+  timedOut?: boolean;
+}
+
+export interface ExecuteRequest {
+  language: string;
+  source: string;
+  tests: TestSuite;
+}
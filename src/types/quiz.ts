@@ -0,0 +1,36 @@
+// Multiple-choice questions. The interviewer's answer key never leaves the
+// server: clients get a QuizQuestion and ask /api/quiz to grade a choice.
+
+// Question as shown to the candidate
+export interface QuizQuestion {
+  id: string;
+  topic: string;
+  question: string;
+  options: string[];
+}
+
+export interface QuizAnswerRequest {
+  id: string;
+  // Index into options
+  choice: number;
+}
+
+export interface QuizGrade {
+  choice: number;
+  correct: boolean;
+  correctIndex: number;
+  explanation: string;
+}
+
+// Candidate's answer as sent back to the interviewer. The server uses the
+// answer it recorded for the question, not this choice.
+export interface QuizAnswer {
+  questionId: string;
+  choice: number;
+}
+
+export interface QuizTopicScore {
+  topic: string;
+  correct: number;
+  total: number;
+}
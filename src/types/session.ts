@@ -0,0 +1,58 @@
+// Persisted interview sessions served by /api/sessions
+
+import type { ScoreDimension, ScorecardResponse } from "@/app/api/scorecard/route";
+import type { InterviewLanguage } from "@/lib/languages";
+import type { ExecutionResult, TestSuite } from "@/types/execute";
+import type { ProviderId } from "@/lib/llm";
+import type {
+  DifficultyLevel,
+  InterviewDuration,
+  InterviewType,
+  Message,
+} from "@/store/useInterviewStore";
+
+export type SessionStatus = "in-progress" | "completed";
+
+export interface InterviewSetup {
+  jobDescription: string;
+  interviewTypes: InterviewType[];
+  difficulty: DifficultyLevel;
+  duration: InterviewDuration;
+  // Missing on sessions saved before languages were added
+  language?: InterviewLanguage;
+  provider: ProviderId | null;
+  model: string | null;
+}
+
+export interface InterviewSession extends InterviewSetup {
+  id: string;
+  status: SessionStatus;
+  // Epoch ms
+  createdAt: number;
+  updatedAt: number;
+  // Set by the server; the chat route measures the time limit from it
+  startedAt: number;
+  messages: Message[];
+  scorecard: ScorecardResponse | null;
+  // Set by the chat route, never by clients: the interviewer's latest test
+  // cases and the server's run of each submission, by submission key
+  testSuite?: TestSuite;
+  testRuns?: Record<string, ExecutionResult>;
+}
+
+// Lightweight listing entry, without the transcript
+export type SessionSummary = Omit<
+  InterviewSession,
+  "messages" | "scorecard" | "testSuite" | "testRuns"
+> & {
+  messageCount: number;
+  overallScore: number | null;
+  // Empty for sessions without a scorecard
+  dimensionScores: Pick<ScoreDimension, "id" | "label" | "score">[];
+};
+
+export type CreateSessionRequest = Partial<InterviewSetup>;
+
+export type UpdateSessionRequest = Partial<
+  Pick<InterviewSession, "status" | "messages" | "scorecard">
+>;
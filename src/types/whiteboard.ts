@@ -0,0 +1,32 @@
+// System design whiteboard drawn by the candidate. Coordinates are in the
+// canvas' own units (see WHITEBOARD_WIDTH / WHITEBOARD_HEIGHT in lib/whiteboard).
+
+export interface WhiteboardBox {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label: string;
+}
+
+export interface WhiteboardArrow {
+  id: string;
+  from: string;
+  to: string;
+  label: string;
+}
+
+// Free-standing text
+export interface WhiteboardNote {
+  id: string;
+  x: number;
+  y: number;
+  text: string;
+}
+
+export interface WhiteboardState {
+  boxes: WhiteboardBox[];
+  arrows: WhiteboardArrow[];
+  notes: WhiteboardNote[];
+}